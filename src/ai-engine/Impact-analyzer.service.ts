@@ -4,11 +4,26 @@
 // specs are affected using two strategies:
 //   1. Framework/jurisdiction filter (fast, DB-level)
 //   2. Semantic similarity check (precise, vector-level)
-//      — Only runs on specs that pass the framework filter
+//      — Only runs on specs that pass the framework filter, as
+//        one pgvector query against stored spec embeddings
+//      — Scored per module (each module and its major sections
+//        are embedded), so content deep in one module still counts
+//      — Threshold per workspace (workspaces.semantic_threshold),
+//        falling back to defaultSemanticThreshold()
+//
+// Every candidate's assessment — affected or not — can be kept
+// in regulation_impact_analysis, so a team can see why their
+// spec was or wasn't patched:
+//   id | regulation_id | regulation_ref | workspace_id
+//   spec_version_id | semantic_score | threshold (null = no check ran)
+//   module_scores | top_sections (jsonb) | affected | skip_reason
+//   analyzed_at
 // ============================================================
 
 import { createClient } from '@supabase/supabase-js';
-import { embedQuery } from '../rag/embeddings';
+import { embedQuery, getDefaultThresholds } from '../rag/embeddings';
+import { ensureSpecEmbeddings, scoreSpecModules, scoreSpecModulesInMemory } from './specEmbeddings';
+import { ModuleKey, ModuleImpactScores } from '../types';
 
 export interface AffectedSpec {
   specId: string;
@@ -16,13 +31,27 @@ export interface AffectedSpec {
   versionNumber: number;
   frameworks: string[];
   jurisdictions: string[];
-  semanticScore: number;   // How strongly does this spec relate to the regulation?
+  semanticScore: number;   // How strongly does this spec relate to the regulation? (best module score)
+  moduleScores?: ModuleImpactScores;                  // Absent when no semantic check ran
+  topSections?: Partial<Record<ModuleKey, string>>;   // Best-matching section per module, e.g. "security_blueprint.auditLogging"
+}
+
+// Not embedded: the spec has no embeddable content
+export type ImpactSkipReason = 'below_threshold' | 'not_embedded';
+
+export interface SpecImpactAssessment extends AffectedSpec {
+  affected: boolean;
+  threshold: number | null;   // null when there was no content to check against
+  skipReason?: ImpactSkipReason;
 }
 
 // Minimum semantic similarity to consider a spec affected
 // Prevents patching specs that technically use GDPR but have
 // nothing to do with the specific article
-const SEMANTIC_THRESHOLD = 0.65;
+// SEMANTIC_THRESHOLD overrides the configured embedder's default
+export function defaultSemanticThreshold(): number {
+  return Number(process.env.SEMANTIC_THRESHOLD ?? getDefaultThresholds().semantic);
+}
 
 function getSupabase() {
   return createClient(
@@ -33,24 +62,45 @@ function getSupabase() {
 
 /**
  * Find all active specs affected by a regulation.
+ * The affected subset of assessRegulationImpact.
+ */
+export async function findAffectedSpecs(
+  framework: string,
+  jurisdiction: string,
+  regulationContent?: string,
+): Promise<AffectedSpec[]> {
+  const assessments = await assessRegulationImpact(framework, jurisdiction, regulationContent);
+  return assessments.filter(a => a.affected);
+}
+
+/**
+ * Assess every candidate spec against a regulation.
  *
  * Strategy:
  * 1. Query DB for specs matching framework + jurisdiction (fast index scan)
- * 2. For each candidate, check semantic similarity of the regulation content
- *    against the spec's master_specification text
- * 3. Return only specs above the semantic threshold
+ * 2. Embed the regulation content once and score it against each
+ *    candidate's stored module and section embeddings
+ * 3. A spec is affected if its best module reaches its workspace's
+ *    threshold. Without content, every candidate is affected.
+ *
+ * Affected specs come first, most affected first.
  */
-export async function findAffectedSpecs(
+export async function assessRegulationImpact(
   framework: string,
   jurisdiction: string,
   regulationContent?: string,
-): Promise<AffectedSpec[]> {
+  options: {
+    workspaceId?: string;          // Only assess this workspace's specs
+    backfillEmbeddings?: boolean;  // Store missing spec embeddings (default true); false embeds them in memory only
+  } = {},
+): Promise<SpecImpactAssessment[]> {
   const supabase = getSupabase();
 
   console.log(`[ImpactAnalyzer] Scanning for specs: framework=${framework}, jurisdiction=${jurisdiction}`);
 
   // Step 1: Framework + jurisdiction filter via DB RPC
-  const { data: candidates, error } = await supabase.rpc('find_affected_specs', {
+  // (main-line active versions only — branches are never auto-patched)
+  const { data: matched, error } = await supabase.rpc('find_affected_specs', {
     p_framework: framework,
     p_jurisdiction: jurisdiction,
   });
@@ -59,6 +109,10 @@ export async function findAffectedSpecs(
     throw new Error(`[ImpactAnalyzer] DB query failed: ${error.message}`);
   }
 
+  const candidates = options.workspaceId
+    ? (matched ?? []).filter((c: any) => c.workspace_id === options.workspaceId)
+    : matched;
+
   if (!candidates || candidates.length === 0) {
     console.log('[ImpactAnalyzer] No candidate specs found via framework filter.');
     return [];
@@ -66,100 +120,136 @@ export async function findAffectedSpecs(
 
   console.log(`[ImpactAnalyzer] ${candidates.length} candidates from framework filter.`);
 
+  const toAssessment = (c: any): SpecImpactAssessment => ({
+    specId: c.spec_id,
+    workspaceId: c.workspace_id,
+    versionNumber: c.version_number,
+    frameworks: c.frameworks,
+    jurisdictions: c.jurisdictions,
+    semanticScore: 1.0,
+    affected: true,
+    threshold: null,
+  });
+
   // Step 2: If we have regulation content, apply semantic filter
   if (!regulationContent) {
-    // No content to embed — return all framework matches as affected
-    return candidates.map((c: any) => ({
-      specId: c.spec_id,
-      workspaceId: c.workspace_id,
-      versionNumber: c.version_number,
-      frameworks: c.frameworks,
-      jurisdictions: c.jurisdictions,
-      semanticScore: 1.0,
-    }));
+    console.warn('[ImpactAnalyzer] No regulation content — skipping semantic filter, all candidates affected.');
+    return candidates.map(toAssessment);
   }
 
-  // Embed the regulation content
-  const regulationEmbedding = await embedQuery(regulationContent);
-
-  // For each candidate spec, compute semantic similarity against its master spec text
-  const results: AffectedSpec[] = [];
+  // Candidates embedded before their version event was consumed, or
+  // before embeddings were stored at all, are embedded now in batches.
+  // Without the backfill they are embedded in memory and scored here.
+  const candidateIds: string[] = candidates.map((c: any) => c.spec_id);
+  const backfill = options.backfillEmbeddings ?? true;
+  if (backfill) {
+    await ensureSpecEmbeddings(candidateIds);
+  }
 
-  for (const candidate of candidates) {
-    // Fetch the spec's master specification text for comparison
-    const { data: spec } = await supabase
-      .from('spec_versions')
-      .select('master_specification')
-      .eq('id', candidate.spec_id)
-      .single();
+  // One embedding call for the regulation, one vector query for all specs
+  const regulationEmbedding = await embedQuery(regulationContent);
+  const [stored, thresholds] = await Promise.all([
+    scoreSpecModules(regulationEmbedding, candidateIds),
+    getSemanticThresholds(supabase, [...new Set<string>(candidates.map((c: any) => c.workspace_id))]),
+  ]);
+
+  const scored = [...stored];
+  if (!backfill) {
+    const storedIds = new Set(stored.map(s => s.specVersionId));
+    const unembedded = candidateIds.filter(id => !storedIds.has(id));
+    scored.push(...await scoreSpecModulesInMemory(regulationEmbedding, unembedded));
+  }
 
-    if (!spec?.master_specification) continue;
+  const scoresBySpec = new Map(scored.map(s => [s.specVersionId, s]));
 
-    // Build a searchable text from the master spec
-    const masterSpecText = extractMasterSpecText(spec.master_specification);
+  const fallbackThreshold = defaultSemanticThreshold();
+  const results: SpecImpactAssessment[] = candidates.map((c: any): SpecImpactAssessment => {
+    const threshold = thresholds.get(c.workspace_id) ?? fallbackThreshold;
+    const match = scoresBySpec.get(c.spec_id);
 
-    // Embed the spec text
-    const specEmbedding = await embedQuery(masterSpecText);
+    if (!match) {
+      console.log(`[ImpactAnalyzer] Spec ${c.spec_id}: no embeddings — skipped`);
+      return { ...toAssessment(c), semanticScore: 0, affected: false, threshold, skipReason: 'not_embedded' };
+    }
 
-    // Cosine similarity
-    const similarity = cosineSimilarity(regulationEmbedding, specEmbedding);
+    const scores = Object.entries(match.moduleScores) as Array<[ModuleKey, number]>;
+    const semanticScore = Math.max(...scores.map(([, score]) => score));
+    const affected = semanticScore >= threshold;
 
     console.log(
-      `[ImpactAnalyzer] Spec ${candidate.spec_id}: semantic score = ${similarity.toFixed(3)}`,
+      `[ImpactAnalyzer] Spec ${c.spec_id}: semantic score = ${semanticScore.toFixed(3)} ` +
+      `(threshold ${threshold}; ${scores.map(([module, score]) => `${module}=${score.toFixed(3)}`).join(', ')})`,
     );
 
-    if (similarity >= SEMANTIC_THRESHOLD) {
-      results.push({
-        specId: candidate.spec_id,
-        workspaceId: candidate.workspace_id,
-        versionNumber: candidate.version_number,
-        frameworks: candidate.frameworks,
-        jurisdictions: candidate.jurisdictions,
-        semanticScore: similarity,
-      });
-    }
-  }
+    return {
+      ...toAssessment(c),
+      semanticScore,
+      moduleScores: match.moduleScores,
+      topSections: match.topSections,
+      affected,
+      threshold,
+      skipReason: affected ? undefined : 'below_threshold',
+    };
+  });
 
-  // Sort by semantic score — most affected specs first
-  results.sort((a, b) => b.semanticScore - a.semanticScore);
+  // Affected first, then by semantic score — most affected specs first
+  results.sort((a, b) => Number(b.affected) - Number(a.affected) || b.semanticScore - a.semanticScore);
 
   console.log(
-    `[ImpactAnalyzer] ${results.length} / ${candidates.length} specs passed semantic filter (threshold: ${SEMANTIC_THRESHOLD})`,
+    `[ImpactAnalyzer] ${results.filter(r => r.affected).length} / ${candidates.length} specs passed semantic filter`,
   );
 
   return results;
 }
 
-// ── Helpers ───────────────────────────────────────────────────
-
-function extractMasterSpecText(masterSpec: any): string {
-  if (!masterSpec) return '';
-
-  const parts: string[] = [
-    masterSpec.projectName ?? '',
-    masterSpec.projectSummary ?? '',
-    masterSpec.problemStatement ?? '',
-    ...(masterSpec.coreFeatures ?? []).map((f: any) => `${f.name}: ${f.description}`),
-    ...(masterSpec.dataFlows ?? []).map((d: any) => `${d.from} → ${d.to}: ${d.dataType}`),
-    ...(masterSpec.nonFunctionalRequirements ?? []).map((r: any) => r.requirement),
-  ];
+/**
+ * Keep one regulation_impact_analysis row per assessed spec.
+ */
+export async function recordImpactAssessments(
+  regulation: { id: string; framework: string; article: string },
+  assessments: SpecImpactAssessment[],
+): Promise<void> {
+  if (assessments.length === 0) return;
+
+  const analyzedAt = new Date().toISOString();
+
+  const { error } = await getSupabase()
+    .from('regulation_impact_analysis')
+    .insert(assessments.map(a => ({
+      regulation_id: regulation.id,
+      regulation_ref: `${regulation.framework} ${regulation.article}`,
+      workspace_id: a.workspaceId,
+      spec_version_id: a.specId,
+      semantic_score: a.semanticScore,
+      threshold: a.threshold,
+      module_scores: a.moduleScores ?? null,
+      top_sections: a.topSections ?? null,
+      affected: a.affected,
+      skip_reason: a.skipReason ?? null,
+      analyzed_at: analyzedAt,
+    })));
 
-  return parts.filter(Boolean).join('\n');
+  if (error) {
+    throw new Error(`[ImpactAnalyzer] Failed to record impact analysis: ${error.message}`);
+  }
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
+// ── Internals ─────────────────────────────────────────────────
 
-  let dot = 0;
-  let normA = 0;
-  let normB = 0;
+// Workspaces that set their own threshold; the rest use the default
+async function getSemanticThresholds(
+  supabase: ReturnType<typeof getSupabase>,
+  workspaceIds: string[],
+): Promise<Map<string, number>> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('id, semantic_threshold')
+    .in('id', workspaceIds)
+    .not('semantic_threshold', 'is', null);
 
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
+  if (error) {
+    throw new Error(`[ImpactAnalyzer] Failed to load workspace thresholds: ${error.message}`);
   }
 
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-  return denominator === 0 ? 0 : dot / denominator;
+  return new Map((data ?? []).map((w: any) => [w.id, Number(w.semantic_threshold)]));
 }
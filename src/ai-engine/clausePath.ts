@@ -0,0 +1,276 @@
+// ============================================================
+// ASSURE CODE — Clause Path Interpreter
+// Resolves ClauseDiff.clausePath values such as
+// "encryptionControls[2].algorithm" against module JSON and
+// applies before/after patches deterministically. Anything
+// that doesn't line up is returned as a PatchConflict — no
+// diff is ever applied on a guess.
+// ============================================================
+
+import { ClauseDiff, ModuleKey, PatchConflict } from '../types';
+
+export type PathSegment = string | number;
+
+const MODULE_KEYS: ModuleKey[] = [
+  'master_specification',
+  'security_blueprint',
+  'cost_analysis',
+  'tech_stack_justification',
+  'code_scaffolding',
+];
+
+// ── Parsing ───────────────────────────────────────────────────
+
+/**
+ * Parse a clause path into segments.
+ *   "encryptionControls[2].algorithm" → ['encryptionControls', 2, 'algorithm']
+ *   'zones["Public DMZ"]'              → ['zones', 'Public DMZ']
+ * Throws on malformed input.
+ */
+export function parseClausePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  const re = /([^.[\]]+)|\[(\d+)\]|\["((?:[^"\\]|\\.)*)"\]|(\.)/g;
+  let lastIndex = 0;
+  let expectKey = true;
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(path)) !== null) {
+    if (match.index !== lastIndex) break; // Unparseable characters in between
+    lastIndex = re.lastIndex;
+
+    const [, key, index, quoted, dot] = match;
+    if (dot) {
+      if (expectKey) throw new Error(`Invalid clause path "${path}": unexpected "."`);
+      expectKey = true;
+    } else if (key !== undefined) {
+      if (!expectKey) throw new Error(`Invalid clause path "${path}": missing "." before "${key}"`);
+      segments.push(key.trim());
+      expectKey = false;
+    } else if (index !== undefined) {
+      segments.push(parseInt(index, 10));
+      expectKey = false;
+    } else {
+      segments.push(quoted.replace(/\\(.)/g, '$1'));
+      expectKey = false;
+    }
+  }
+
+  if (lastIndex !== path.length || segments.length === 0 || expectKey) {
+    throw new Error(`Invalid clause path "${path}"`);
+  }
+
+  return segments;
+}
+
+/**
+ * Inverse of parseClausePath.
+ */
+export function formatClausePath(segments: PathSegment[]): string {
+  return segments
+    .map((seg, i) => {
+      if (typeof seg === 'number') return `[${seg}]`;
+      if (/^[A-Za-z_$][\w$-]*$/.test(seg)) return i === 0 ? seg : `.${seg}`;
+      return `[${JSON.stringify(seg)}]`;
+    })
+    .join('');
+}
+
+/**
+ * Parse a path relative to a module. The model sometimes prefixes
+ * the module key ("security_blueprint.auditLogging.retentionDays") —
+ * that prefix is dropped.
+ */
+export function parseModuleClausePath(path: string, moduleKey: ModuleKey): PathSegment[] {
+  const segments = parseClausePath(path);
+  if (segments.length > 1 && segments[0] === moduleKey) return segments.slice(1);
+  if (segments.length > 1 && MODULE_KEYS.includes(segments[0] as ModuleKey)) {
+    throw new Error(`Clause path "${path}" belongs to module ${segments[0]}, not ${moduleKey}`);
+  }
+  return segments;
+}
+
+// ── Resolution ────────────────────────────────────────────────
+
+/**
+ * Read the value at a path. Returns undefined if any segment is missing.
+ */
+export function getAtPath(root: unknown, segments: PathSegment[]): unknown {
+  let node: any = root;
+  for (const seg of segments) {
+    if (node === null || typeof node !== 'object') return undefined;
+    if (typeof seg === 'number' && !Array.isArray(node)) return undefined;
+    node = node[seg];
+  }
+  return node;
+}
+
+/**
+ * String form of a clause value, as it appears in ClauseDiff.before/after.
+ */
+export function stringifyClauseValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+// ── Application ───────────────────────────────────────────────
+
+export interface ClauseApplyResult<T> {
+  data: T;
+  applied: ClauseDiff[];
+  conflicts: PatchConflict[];
+}
+
+/**
+ * Apply clause diffs to a module, in order, on a deep copy.
+ *
+ * A diff is applied only when:
+ *   - its path resolves (or appends exactly one array entry with an empty "before")
+ *   - its "before" matches the current value
+ *   - its "after" can be coerced to the current value's JSON type
+ * Every other diff is returned as a conflict and the module is left untouched at that path.
+ */
+export function applyClauseDiffs<T>(moduleData: T, diffs: ClauseDiff[]): ClauseApplyResult<T> {
+  const data = JSON.parse(JSON.stringify(moduleData)) as T;
+  const applied: ClauseDiff[] = [];
+  const conflicts: PatchConflict[] = [];
+
+  for (const diff of diffs) {
+    const conflict = applyOne(data, diff);
+    if (conflict) {
+      conflicts.push(conflict);
+    } else {
+      applied.push(diff);
+    }
+  }
+
+  return { data, applied, conflicts };
+}
+
+function applyOne(root: unknown, diff: ClauseDiff): PatchConflict | null {
+  let segments: PathSegment[];
+  try {
+    segments = parseModuleClausePath(diff.clausePath, diff.module);
+  } catch (err: any) {
+    return conflict(diff, 'invalid_path', err.message);
+  }
+
+  const parent = getAtPath(root, segments.slice(0, -1));
+  const leaf = segments[segments.length - 1];
+
+  if (parent === null || typeof parent !== 'object') {
+    return conflict(diff, 'missing_path', `Parent of "${diff.clausePath}" does not exist.`);
+  }
+
+  // Appending a new array entry — the one case where the path may not exist yet
+  if (Array.isArray(parent) && leaf === parent.length) {
+    if (diff.before.trim() !== '') {
+      return conflict(diff, 'missing_path', `Index ${leaf} is out of range and "before" is not empty.`);
+    }
+    const template = parent.length > 0 ? parent[parent.length - 1] : undefined;
+    const next = coerceAfter(diff.after, template);
+    if (next.error) return conflict(diff, 'type_change', next.error);
+    parent.push(next.value);
+    return null;
+  }
+
+  if (typeof leaf === 'number' && !Array.isArray(parent)) {
+    return conflict(diff, 'missing_path', `"${formatClausePath(segments.slice(0, -1))}" is not an array.`);
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(parent, leaf)) {
+    return conflict(diff, 'missing_path', `"${diff.clausePath}" does not exist in ${diff.module}.`);
+  }
+
+  const current = (parent as any)[leaf];
+
+  if (!beforeMatches(diff.before, current)) {
+    return conflict(
+      diff,
+      'before_mismatch',
+      `Expected "${truncate(diff.before)}" but found "${truncate(stringifyClauseValue(current))}".`,
+      current,
+    );
+  }
+
+  const next = coerceAfter(diff.after, current);
+  if (next.error) return conflict(diff, 'type_change', next.error, current);
+
+  (parent as any)[leaf] = next.value;
+  return null;
+}
+
+function beforeMatches(before: string, current: unknown): boolean {
+  if (normalizeText(before) === normalizeText(stringifyClauseValue(current))) return true;
+  if (typeof current === 'string') return false;
+
+  // Non-string values: compare structurally so formatting differences don't matter
+  try {
+    return JSON.stringify(JSON.parse(before)) === JSON.stringify(current);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert the string "after" into a value of the same JSON type as `template`.
+ */
+function coerceAfter(after: string, template: unknown): { value?: unknown; error?: string } {
+  if (template === undefined || template === null || typeof template === 'string') {
+    return { value: after };
+  }
+
+  if (typeof template === 'number') {
+    const n = Number(after.trim());
+    return Number.isFinite(n) && after.trim() !== ''
+      ? { value: n }
+      : { error: `"${truncate(after)}" is not a number.` };
+  }
+
+  if (typeof template === 'boolean') {
+    const v = after.trim().toLowerCase();
+    if (v === 'true' || v === 'false') return { value: v === 'true' };
+    return { error: `"${truncate(after)}" is not a boolean.` };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(after);
+  } catch {
+    return { error: `"${truncate(after)}" is not valid JSON for a ${Array.isArray(template) ? 'list' : 'object'} clause.` };
+  }
+
+  if (Array.isArray(template) !== Array.isArray(parsed) || parsed === null || typeof parsed !== 'object') {
+    return { error: `Replacing a ${Array.isArray(template) ? 'list' : 'object'} with ${describeType(parsed)} changes the clause type.` };
+  }
+
+  return { value: parsed };
+}
+
+function conflict(
+  diff: ClauseDiff,
+  kind: PatchConflict['kind'],
+  message: string,
+  currentValue?: unknown,
+): PatchConflict {
+  return {
+    diff,
+    kind,
+    message,
+    ...(currentValue !== undefined ? { currentValue: stringifyClauseValue(currentValue) } : {}),
+  };
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return `a ${typeof value}`;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, max = 120): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
@@ -1,11 +1,10 @@
 // ============================================================
-// ASSURE CODE — Clause-Level Diff Engine (Claude-powered)
+// ASSURE CODE — Clause-Level Diff Engine (differ role, Claude by default)
 // Given an existing spec and a new regulation, Claude identifies
 // exactly which clauses need to change and generates before/after
 // diffs per clause — never rewrites the whole module.
 // ============================================================
 
-import Anthropic from '@anthropic-ai/sdk';
 import {
   SpecVersion,
   ClauseDiff,
@@ -15,37 +14,91 @@ import {
   CostAnalysis,
   TechStackJustification,
   CodeScaffolding,
+  PatchConflict,
+  ModuleImpactScores,
 } from '../types';
+import { applyClauseDiffs } from './clausePath';
+import { generateValidated } from './structuredOutput';
+import { affectedModulesSchema, clauseDiffsSchema } from './outputSchemas';
+import { getLLM } from './llmProvider';
+import { getDefaultThresholds } from './embeddings';
 
-const CLAUDE_MODEL = 'claude-sonnet-4-6';
-
-let _client: Anthropic | null = null;
+// ── Module Impact Detection ────────────────────────────────────
 
-function getClient(): Anthropic {
-  if (!_client) {
-    _client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
-  }
-  return _client;
+// Module similarity scores (from the impact analyzer) at or above
+// this are affected without asking the model; below the skip
+// threshold they are not. Only the ones in between go to the model.
+// The skip threshold never exceeds the workspace's semantic
+// threshold, so the module that made a spec affected is never skipped.
+// Defaults come from the configured embedder; env overrides them.
+function moduleThresholds(): { confirm: number; skip: number } {
+  const defaults = getDefaultThresholds();
+  return {
+    confirm: Number(process.env.MODULE_CONFIRM_THRESHOLD ?? defaults.moduleConfirm),
+    skip: Number(process.env.MODULE_SKIP_THRESHOLD ?? defaults.moduleSkip),
+  };
 }
 
-// ── Module Impact Detection ────────────────────────────────────
+const MODULE_DESCRIPTIONS: Record<ModuleKey, string> = {
+  master_specification: 'Project overview, features, data flows, NFRs',
+  security_blueprint: 'Threat model, encryption, IAM, audit logging, incident response',
+  cost_analysis: 'Infrastructure costs, compliance premium',
+  tech_stack_justification: 'Technology decisions, vendor risk',
+  code_scaffolding: 'Dockerfile, CI pipeline, env template',
+};
 
 /**
  * Determine which of the 5 modules are likely affected by a regulation.
  * Fast pre-filter before running expensive diff generation.
+ *
+ * With per-module similarity scores, clear-cut modules are decided
+ * from the scores alone and the model is only asked about the rest —
+ * or not at all. Modules without a score are always asked about.
+ * `semanticThreshold` is the threshold the spec passed to be
+ * considered affected.
  */
 export async function detectAffectedModules(
   regulation: { framework: string; article: string; content: string },
   spec: SpecVersion,
+  moduleScores?: ModuleImpactScores,
+  semanticThreshold?: number,
+): Promise<ModuleKey[]> {
+  const allModules = Object.keys(MODULE_DESCRIPTIONS) as ModuleKey[];
+
+  if (!moduleScores) {
+    return askAffectedModules(regulation, spec, allModules);
+  }
+
+  const thresholds = moduleThresholds();
+  const skipThreshold = semanticThreshold === undefined
+    ? thresholds.skip
+    : Math.min(thresholds.skip, semanticThreshold);
+
+  const confirmed = allModules.filter(m => (moduleScores[m] ?? 0) >= thresholds.confirm);
+  const uncertain = allModules.filter(m => {
+    const score = moduleScores[m];
+    return score === undefined || (score >= skipThreshold && score < thresholds.confirm);
+  });
+
+  console.log(
+    `[DiffEngine] Module scores: ${confirmed.length} confirmed, ${uncertain.length} uncertain, ` +
+    `${allModules.length - confirmed.length - uncertain.length} skipped`,
+  );
+
+  if (uncertain.length === 0) return confirmed;
+
+  const asked = await askAffectedModules(regulation, spec, uncertain);
+  return allModules.filter(m => confirmed.includes(m) || asked.includes(m));
+}
+
+async function askAffectedModules(
+  regulation: { framework: string; article: string; content: string },
+  spec: SpecVersion,
+  candidates: ModuleKey[],
 ): Promise<ModuleKey[]> {
-  const client = getClient();
-
-  const response = await client.messages.create({
-    model: CLAUDE_MODEL,
-    max_tokens: 500,
-    messages: [{
-      role: 'user',
-      content: `
+  const llm = getLLM('differ');
+
+  const prompt = `
 You are a compliance analyst. Given a new regulation and a technical spec summary, 
 identify which spec modules are affected.
 
@@ -61,26 +114,20 @@ Tech Stack: ${JSON.stringify(spec.modules.tech_stack_justification?.decisions?.m
 Security Controls: ${JSON.stringify(spec.modules.security_blueprint?.encryptionControls?.map(e => e.mechanism) ?? [])}
 </spec_summary>
 
-The 5 modules are:
-- master_specification: Project overview, features, data flows, NFRs
-- security_blueprint: Threat model, encryption, IAM, audit logging, incident response
-- cost_analysis: Infrastructure costs, compliance premium
-- tech_stack_justification: Technology decisions, vendor risk
-- code_scaffolding: Dockerfile, CI pipeline, env template
+The modules to consider are:
+${candidates.map(m => `- ${m}: ${MODULE_DESCRIPTIONS[m]}`).join('\n')}
 
 Respond with ONLY a JSON array of affected module keys. Example: ["security_blueprint", "code_scaffolding"]
-Only include modules genuinely affected by this specific regulation.`,
-    }],
+Only include modules genuinely affected by this specific regulation.`;
+
+  const modules = await generateValidated({
+    label: 'DiffEngine',
+    prompt,
+    schema: affectedModulesSchema,
+    complete: p => llm.complete({ prompt: p, maxTokens: 500 }),
   });
 
-  const text = response.content[0].type === 'text' ? response.content[0].text : '[]';
-  try {
-    const cleaned = text.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
-    return JSON.parse(cleaned) as ModuleKey[];
-  } catch {
-    // Default to security and master spec as safe fallback
-    return ['master_specification', 'security_blueprint'];
-  }
+  return modules.filter(m => candidates.includes(m));
 }
 
 // ── Clause Diff Generation ─────────────────────────────────────
@@ -94,46 +141,45 @@ export async function generateModuleDiffs(
   moduleKey: ModuleKey,
   currentModuleData: any,
 ): Promise<ClauseDiff[]> {
-  const client = getClient();
+  const llm = getLLM('differ');
 
   const prompt = buildDiffPrompt(regulation, moduleKey, currentModuleData);
 
-  const response = await client.messages.create({
-    model: CLAUDE_MODEL,
-    max_tokens: 4096,
-    messages: [{ role: 'user', content: prompt }],
+  const diffs = await generateValidated({
+    label: 'DiffEngine',
+    prompt,
+    schema: clauseDiffsSchema,
+    complete: p => llm.complete({ prompt: p, maxTokens: 4096 }),
   });
 
-  const text = response.content[0].type === 'text' ? response.content[0].text : '[]';
-
-  try {
-    const cleaned = text.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
-    const diffs = JSON.parse(cleaned) as ClauseDiff[];
-
-    // Stamp module and regulation on each diff
-    return diffs.map(d => ({
-      ...d,
-      module: moduleKey,
-      regulationTrigger: `${regulation.framework} ${regulation.article}`,
-    }));
-  } catch (err) {
-    console.error(`[DiffEngine] Failed to parse diffs for module ${moduleKey}:`, err);
-    return [];
-  }
+  // Stamp module and regulation on each diff
+  return diffs.map(d => ({
+    ...d,
+    module: moduleKey,
+    regulationTrigger: `${regulation.framework} ${regulation.article}`,
+  }));
 }
 
 // ── Apply Diffs to Spec ────────────────────────────────────────
 
+export interface ApplyDiffsResult {
+  modules: SpecVersion['modules'];
+  applied: ClauseDiff[];
+  conflicts: PatchConflict[];
+}
+
 /**
  * Apply a set of clause diffs to the current spec modules,
  * producing updated module data.
+ *
+ * Each clausePath is resolved by the clause path interpreter and the
+ * diff's "before" is checked against the current value. Diffs that
+ * don't line up are returned as conflicts and leave the module unchanged.
  */
-export async function applyDiffsToSpec(
+export function applyDiffsToSpec(
   spec: SpecVersion,
   diffs: ClauseDiff[],
-): Promise<SpecVersion['modules']> {
-  const client = getClient();
-
+): ApplyDiffsResult {
   // Group diffs by module
   const diffsByModule: Partial<Record<ModuleKey, ClauseDiff[]>> = {};
   for (const diff of diffs) {
@@ -142,51 +188,35 @@ export async function applyDiffsToSpec(
   }
 
   const updatedModules = { ...spec.modules };
+  const applied: ClauseDiff[] = [];
+  const conflicts: PatchConflict[] = [];
 
   for (const [moduleKey, moduleDiffs] of Object.entries(diffsByModule)) {
     const key = moduleKey as ModuleKey;
     const currentModule = spec.modules[key];
 
-    if (!currentModule || moduleDiffs.length === 0) continue;
+    if (!moduleDiffs || moduleDiffs.length === 0) continue;
 
-    // Ask Claude to apply the diffs to the module JSON
-    const response = await client.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: 8192,
-      messages: [{
-        role: 'user',
-        content: `
-You are applying compliance patches to a technical specification module.
+    if (!currentModule) {
+      conflicts.push(...moduleDiffs.map(diff => ({
+        diff,
+        kind: 'missing_path' as const,
+        message: `Module ${key} is empty in spec ${spec.id}.`,
+      })));
+      continue;
+    }
 
-<current_module key="${key}">
-${JSON.stringify(currentModule, null, 2)}
-</current_module>
+    const result = applyClauseDiffs(currentModule, moduleDiffs);
+    (updatedModules as any)[key] = result.data;
+    applied.push(...result.applied);
+    conflicts.push(...result.conflicts);
 
-<diffs_to_apply>
-${moduleDiffs.map(d => `
-Clause: ${d.clausePath} (${d.fieldLabel})
-Before: ${d.before}
-After: ${d.after}
-Reason: ${d.reason}
-`).join('\n---\n')}
-</diffs_to_apply>
-
-Apply ONLY the changes described in the diffs. Do not change anything else.
-Preserve all existing structure, formatting, and content that is not in the diffs.
-Return ONLY the updated module as valid JSON with the exact same schema.`,
-      }],
-    });
-
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
-    try {
-      const cleaned = text.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
-      (updatedModules as any)[key] = JSON.parse(cleaned);
-    } catch {
-      console.error(`[DiffEngine] Failed to apply diffs to module ${key}. Keeping original.`);
+    for (const c of result.conflicts) {
+      console.warn(`[DiffEngine] Conflict in ${key} at ${c.diff.clausePath} (${c.kind}): ${c.message}`);
     }
   }
 
-  return updatedModules;
+  return { modules: updatedModules, applied, conflicts };
 }
 
 // ── Prompt Builder ─────────────────────────────────────────────
@@ -220,6 +250,9 @@ RULES:
 4. The "before" must be the exact current value from the module above
 5. The "after" must be the minimal change to achieve compliance
 6. If no changes are needed, return an empty array []
+7. Diffs are applied mechanically: a "before" that doesn't match the current value is rejected
+8. For number, boolean, list or object fields, "before" and "after" are JSON literals (e.g. "90", "[\"eu-west-1\"]")
+9. To add a new list entry, use the next free index with an empty "before"
 
 Respond with ONLY a valid JSON array:
 [
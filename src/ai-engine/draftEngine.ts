@@ -1,36 +1,17 @@
 // ============================================================
-// ASSURE CODE — Draft Engine (Google Gemini)
+// ASSURE CODE — Draft Engine (drafter role, Gemini by default)
 // Generates a full Technical Specification draft from a
 // project idea and a set of retrieved regulations.
 // ============================================================
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import { RetrievedRegulation, SpecificationRequest, DraftSpecification } from '../types';
-
-const GEMINI_MODEL = 'gemini-1.5-pro-latest';
+import { generateValidated } from './structuredOutput';
+import { draftSpecificationSchema } from './outputSchemas';
+import { getLLM } from './llmProvider';
 
 // Minimum score a regulation needs to be included in the draft context
 const MIN_REGULATION_SIMILARITY = 0.72;
 
-let _model: GenerativeModel | null = null;
-
-function getModel(): GenerativeModel {
-  if (!_model) {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not set in environment variables.');
-    }
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    _model = genAI.getGenerativeModel({
-      model: GEMINI_MODEL,
-      generationConfig: {
-        responseMimeType: 'application/json', // Force structured output
-        temperature: 0.2, // Low temp for deterministic compliance output
-      },
-    });
-  }
-  return _model;
-}
-
 // ============================================================
 // PROMPT BUILDER
 // ============================================================
@@ -117,7 +98,7 @@ Respond with ONLY a valid JSON object matching this exact schema:
 // ============================================================
 
 /**
- * Generate a compliant technical specification draft using Gemini.
+ * Generate a compliant technical specification draft using the drafter model.
  */
 export async function generateDraft(
   request: SpecificationRequest,
@@ -127,32 +108,29 @@ export async function generateDraft(
     throw new Error('[DraftEngine] Cannot generate spec: no regulations were retrieved. Check your frameworks/jurisdictions or lower the similarity threshold.');
   }
 
-  const model = getModel();
+  const llm = getLLM('drafter');
   const prompt = buildDraftPrompt(request, regulations);
 
   console.log(`[DraftEngine] Generating spec for: "${request.projectIdea.slice(0, 80)}..."`);
   console.log(`[DraftEngine] Using ${regulations.length} retrieved regulations.`);
 
-  const result = await model.generateContent(prompt);
-  const rawText = result.response.text();
-
-  let draft: DraftSpecification;
-  try {
-    draft = JSON.parse(rawText);
-  } catch (err) {
-    // Gemini sometimes wraps JSON in markdown fences despite responseMimeType
-    const cleaned = rawText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
-    try {
-      draft = JSON.parse(cleaned);
-    } catch {
-      console.error('[DraftEngine] Raw response:', rawText.slice(0, 500));
-      throw new Error('[DraftEngine] Failed to parse Gemini response as JSON.');
-    }
-  }
+  const parsed = await generateValidated({
+    label: 'DraftEngine',
+    prompt,
+    schema: draftSpecificationSchema,
+    complete: p => llm.complete({
+      prompt: p,
+      json: true,        // Force structured output
+      temperature: 0.2,  // Low temp for deterministic compliance output
+    }),
+  });
 
   // Stamp generation metadata
-  draft.generatedAt = new Date().toISOString();
-  draft.version = draft.version || '1.0.0';
+  const draft: DraftSpecification = {
+    ...parsed,
+    version: parsed.version || '1.0.0',
+    generatedAt: new Date().toISOString(),
+  };
 
   console.log(`[DraftEngine] Draft generated. Regulations applied: ${draft.regulationsApplied?.length ?? 0}`);
 
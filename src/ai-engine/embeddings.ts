@@ -1,41 +1,227 @@
 // ============================================================
-// ASSURE CODE — Embeddings (OpenAI)
-// Responsible for converting text into vector representations
+// ASSURE CODE — Embeddings
+// Responsible for converting text into vector representations.
+// One interface, two embedders:
+//   openai → text-embedding-3-small via the API (default)
+//   local  → hashed n-gram vectors on the CPU — deterministic,
+//            no network, for tests and air-gapped installs
+//
+// Config (env):
+//   EMBEDDER=openai:text-embedding-3-small   (provider:model)
+//   EMBEDDER=local                            (model defaults to hash-ngram-v1)
+//
+// Both produce EMBEDDING_DIMENSIONS-long vectors, so they share
+// the vector(1536) columns. Their vectors are not comparable,
+// though: every stored vector records the model that produced
+// it (getEmbeddingModel()) and lookups filter on it. Switching
+// embedder means re-embedding. Their similarity scores sit in
+// different ranges too, so each embedder carries the default
+// thresholds it was tuned with (getDefaultThresholds()); env
+// and workspace settings still override them.
 // ============================================================
 
+import { createHash } from 'crypto';
 import OpenAI from 'openai';
 
-const EMBEDDING_MODEL = 'text-embedding-3-small'; // 1536 dimensions, matches SQL schema
-const MAX_BATCH_SIZE = 100; // OpenAI batch limit
+export type EmbedderProviderName = 'openai' | 'local';
 
-let _client: OpenAI | null = null;
+/**
+ * Cosine-similarity cut-offs, tuned per embedder.
+ */
+export interface EmbedderThresholds {
+  semantic: number;        // Regulation vs. spec — the spec is affected (impact analyzer)
+  match: number;           // Query vs. regulation — retrieved for RAG (vector store)
+  moduleConfirm: number;   // Module affected without asking the model (diff engine)
+  moduleSkip: number;      // Module unaffected without asking the model (diff engine)
+}
+
+export interface Embedder {
+  readonly name: string;
+  readonly model: string;          // Stored alongside every vector it produces
+  readonly dimensions: number;
+  readonly maxBatchSize: number;
+  readonly defaultThresholds: EmbedderThresholds;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const EMBEDDING_DIMENSIONS = 1536; // Matches SQL schema
+
+const DEFAULT_EMBEDDER_CONFIG = 'openai:text-embedding-3-small';
+const DEFAULT_LOCAL_MODEL = 'hash-ngram-v1';
+
+// ── OpenAI ─────────────────────────────────────────────────────
+
+class OpenAIEmbedder implements Embedder {
+  readonly name = 'openai';
+  readonly dimensions = EMBEDDING_DIMENSIONS;
+  readonly maxBatchSize = 100; // OpenAI batch limit
+  readonly defaultThresholds: EmbedderThresholds = {
+    semantic: 0.65,
+    match: 0.70,
+    moduleConfirm: 0.8,
+    moduleSkip: 0.55,
+  };
+  private client: OpenAI | null = null;
 
-function getClient(): OpenAI {
-  if (!_client) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not set in environment variables.');
+  constructor(readonly model: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is not set in environment variables.');
+      }
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
     }
-    _client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    // OpenAI returns embeddings in the same order as input
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+// ── Local (hashed n-grams) ─────────────────────────────────────
+
+// Feature weights: whole words carry the meaning, word pairs a
+// little phrasing, character trigrams catch inflections
+// ("encrypt" / "encryption" / "encrypted")
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+// Hashed vectors only share the features two texts have in common,
+// so related texts score far lower than with a trained model
+const LOCAL_THRESHOLDS: EmbedderThresholds = {
+  semantic: 0.35,
+  match: 0.40,
+  moduleConfirm: 0.5,
+  moduleSkip: 0.25,
+};
+
+/**
+ * Feature hashing: every word, word pair and character trigram
+ * is hashed to one of `dimensions` buckets with a ±1 sign, and
+ * the sum is L2-normalized. Same text, same vector, on any
+ * machine. Cosine similarity tracks shared vocabulary rather
+ * than meaning — good enough to rank regulations against specs
+ * that use their terms, not a substitute for a trained model.
+ */
+export class LocalHashEmbedder implements Embedder {
+  readonly name = 'local';
+  readonly maxBatchSize = 1000;
+  readonly defaultThresholds = LOCAL_THRESHOLDS;
+
+  constructor(
+    readonly model: string = DEFAULT_LOCAL_MODEL,
+    readonly dimensions: number = EMBEDDING_DIMENSIONS,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    const add = (feature: string, weight: number) => {
+      const hash = createHash('md5').update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimensions;
+      vector[bucket] += (hash[4] & 1 ? 1 : -1) * weight;
+    };
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, WORD_WEIGHT);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`t:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+}
+
+// ── Registry ───────────────────────────────────────────────────
+
+let _embedder: Embedder | null = null;
+
+/**
+ * Get the configured embedder.
+ */
+export function getEmbedder(): Embedder {
+  if (!_embedder) {
+    _embedder = createEmbedder(process.env.EMBEDDER ?? DEFAULT_EMBEDDER_CONFIG);
   }
-  return _client;
+  return _embedder;
+}
+
+/**
+ * Override the embedder (tests, local experiments).
+ */
+export function setEmbedder(embedder: Embedder): void {
+  _embedder = embedder;
 }
 
+/**
+ * Drop the cached embedder so the next getEmbedder() re-reads config.
+ */
+export function resetEmbedder(): void {
+  _embedder = null;
+}
+
+/**
+ * The model ID stored with — and filtered on — every vector.
+ */
+export function getEmbeddingModel(): string {
+  return getEmbedder().model;
+}
+
+/**
+ * The similarity thresholds the configured embedder was tuned with.
+ */
+export function getDefaultThresholds(): EmbedderThresholds {
+  return getEmbedder().defaultThresholds;
+}
+
+function createEmbedder(spec: string): Embedder {
+  const separator = spec.indexOf(':');
+  const name = (separator === -1 ? spec : spec.slice(0, separator)) as EmbedderProviderName;
+  const model = separator === -1 ? '' : spec.slice(separator + 1);
+
+  switch (name) {
+    case 'openai':
+      if (!model) {
+        throw new Error(`[Embeddings] Invalid embedder config "${spec}". Expected "openai:<model>".`);
+      }
+      return new OpenAIEmbedder(model);
+    case 'local':
+      return new LocalHashEmbedder(model || DEFAULT_LOCAL_MODEL);
+    default:
+      throw new Error(`[Embeddings] Unknown embedder "${name}". Expected openai or local.`);
+  }
+}
+
+// ── Embedding ──────────────────────────────────────────────────
+
 /**
  * Generate a single embedding for a query string.
  * Used at query time (not ingestion).
  */
 export async function embedQuery(text: string): Promise<number[]> {
-  const client = getClient();
-
   // Sanitize: strip newlines which can degrade embedding quality
   const sanitized = text.replace(/\n+/g, ' ').trim();
 
-  const response = await client.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: sanitized,
-  });
-
-  return response.data[0].embedding;
+  const [embedding] = await getEmbedder().embed([sanitized]);
+  return embedding;
 }
 
 /**
@@ -46,31 +232,25 @@ export async function embedQuery(text: string): Promise<number[]> {
  * @returns Array of embeddings in the same order as input
  */
 export async function embedDocuments(texts: string[]): Promise<number[][]> {
-  const client = getClient();
+  const embedder = getEmbedder();
+  const batchSize = embedder.maxBatchSize;
   const results: number[][] = [];
 
   // Process in batches to respect API limits
-  for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
-    const batch = texts.slice(i, i + MAX_BATCH_SIZE).map(t =>
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const batch = texts.slice(i, i + batchSize).map(t =>
       t.replace(/\n+/g, ' ').trim()
     );
 
-    console.log(`[Embeddings] Processing batch ${Math.floor(i / MAX_BATCH_SIZE) + 1} / ${Math.ceil(texts.length / MAX_BATCH_SIZE)}`);
-
-    const response = await client.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: batch,
-    });
-
-    // OpenAI returns embeddings in the same order as input
-    const batchEmbeddings = response.data
-      .sort((a, b) => a.index - b.index)
-      .map(item => item.embedding);
+    console.log(
+      `[Embeddings] Processing batch ${Math.floor(i / batchSize) + 1} / ${Math.ceil(texts.length / batchSize)} ` +
+      `(${embedder.name}:${embedder.model})`,
+    );
 
-    results.push(...batchEmbeddings);
+    results.push(...await embedder.embed(batch));
 
     // Respect rate limits between batches
-    if (i + MAX_BATCH_SIZE < texts.length) {
+    if (embedder.name === 'openai' && i + batchSize < texts.length) {
       await sleep(200);
     }
   }
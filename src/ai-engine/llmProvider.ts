@@ -0,0 +1,294 @@
+// ============================================================
+// ASSURE CODE — LLM Provider Layer
+// One interface for every model call. Each pipeline role gets
+// its provider + model from config:
+//   drafter  → spec/draft generation     (default: Gemini)
+//   scanner  → Gold Standard scan        (default: OpenAI)
+//   arbiter  → final arbitration         (default: Claude)
+//   differ   → clause diff generation    (default: Claude)
+//
+// Config (env):
+//   LLM_DRAFTER=gemini:gemini-1.5-pro-latest   (provider:model)
+//   LLM_SCANNER / LLM_ARBITER / LLM_DIFFER     (same format)
+//   LLM_MODE=live|record|replay                (default: live)
+//   LLM_FIXTURES_DIR=./fixtures/llm            (record/replay)
+//
+// In replay mode no model is called — responses are served
+// from fixture files written by a previous record run.
+// Embeddings are not replayed: pair it with EMBEDDER=local
+// (ai-engine/embeddings.ts) for a run with no network at all.
+// ============================================================
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+export type LLMRole = 'drafter' | 'scanner' | 'arbiter' | 'differ';
+export type LLMProviderName = 'gemini' | 'openai' | 'anthropic';
+export type LLMMode = 'live' | 'record' | 'replay';
+
+export interface LLMCompletionRequest {
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean;          // Ask the provider for a JSON response where supported
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+const DEFAULT_ROLE_CONFIG: Record<LLMRole, string> = {
+  drafter: 'gemini:gemini-1.5-pro-latest',
+  scanner: 'openai:gpt-4o',
+  arbiter: 'anthropic:claude-sonnet-4-6',
+  differ: 'anthropic:claude-sonnet-4-6',
+};
+
+const DEFAULT_FIXTURES_DIR = './fixtures/llm';
+
+// ── Live Providers ─────────────────────────────────────────────
+
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenerativeAI | null = null;
+
+  constructor(readonly model: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    if (!this.genAI) {
+      this.genAI = new GoogleGenerativeAI(requireEnv('GEMINI_API_KEY'));
+    }
+
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      ...(request.system ? { systemInstruction: request.system } : {}),
+      generationConfig: {
+        ...(request.json ? { responseMimeType: 'application/json' } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+      },
+    });
+
+    const result = await model.generateContent(request.prompt);
+    return result.response.text();
+  }
+}
+
+class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(readonly model: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: requireEnv('OPENAI_API_KEY') });
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+      messages: [
+        ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+        { role: 'user' as const, content: request.prompt },
+      ],
+    });
+
+    return response.choices[0].message.content ?? '';
+  }
+}
+
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  constructor(readonly model: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: requireEnv('ANTHROPIC_API_KEY') });
+    }
+
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens ?? 4096,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+
+    return response.content[0].type === 'text' ? response.content[0].text : '';
+  }
+}
+
+// ── Record / Replay ────────────────────────────────────────────
+
+interface LLMFixture {
+  role: LLMRole;
+  provider: string;
+  model: string;
+  key: string;
+  system?: string;
+  prompt: string;
+  response: string;
+  recordedAt: string;
+}
+
+/**
+ * Serves canned responses from disk (replay), or wraps a live
+ * provider and writes every response to disk (record).
+ *
+ * Fixtures are keyed by role + a hash of the prompt with
+ * timestamps and UUIDs normalized, so a replayed pipeline
+ * matches even though generatedAt / IDs differ per run.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    private readonly role: LLMRole,
+    private readonly fixturesDir: string,
+    private readonly live: LLMProvider | null, // null = replay only
+  ) {
+    this.name = live ? `record:${live.name}` : 'replay';
+    this.model = live?.model ?? 'fixture';
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const key = fixtureKey(this.role, request);
+    const file = path.join(this.fixturesDir, this.role, `${key}.json`);
+
+    if (!this.live) {
+      let raw: string;
+      try {
+        raw = await fs.readFile(file, 'utf-8');
+      } catch {
+        throw new Error(
+          `[LLM] No fixture for ${this.role} call (${file}). ` +
+          'Re-run with LLM_MODE=record to capture it.',
+        );
+      }
+      return (JSON.parse(raw) as LLMFixture).response;
+    }
+
+    const response = await this.live.complete(request);
+
+    const fixture: LLMFixture = {
+      role: this.role,
+      provider: this.live.name,
+      model: this.live.model,
+      key,
+      ...(request.system ? { system: request.system } : {}),
+      prompt: request.prompt,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf-8');
+
+    return response;
+  }
+}
+
+export function fixtureKey(role: LLMRole, request: LLMCompletionRequest): string {
+  const normalize = (text: string) => text
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g, '<timestamp>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>');
+
+  return createHash('sha256')
+    .update(`${role}\n${normalize(request.system ?? '')}\n${normalize(request.prompt)}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+// ── Registry ───────────────────────────────────────────────────
+
+const _providers: Map<LLMRole, LLMProvider> = new Map();
+
+/**
+ * Get the provider configured for a pipeline role.
+ */
+export function getLLM(role: LLMRole): LLMProvider {
+  let provider = _providers.get(role);
+  if (!provider) {
+    provider = createProviderForRole(role);
+    _providers.set(role, provider);
+  }
+  return provider;
+}
+
+/**
+ * Override the provider for a role (tests, local experiments).
+ */
+export function setLLMProvider(role: LLMRole, provider: LLMProvider): void {
+  _providers.set(role, provider);
+}
+
+/**
+ * Drop cached providers so the next getLLM() re-reads config.
+ */
+export function resetLLMProviders(): void {
+  _providers.clear();
+}
+
+function createProviderForRole(role: LLMRole): LLMProvider {
+  const mode = (process.env.LLM_MODE ?? 'live') as LLMMode;
+  const fixturesDir = process.env.LLM_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR;
+
+  if (mode === 'replay') {
+    return new FixtureProvider(role, fixturesDir, null);
+  }
+
+  const spec = process.env[`LLM_${role.toUpperCase()}`] ?? DEFAULT_ROLE_CONFIG[role];
+  const live = createLiveProvider(spec);
+
+  if (mode === 'record') {
+    return new FixtureProvider(role, fixturesDir, live);
+  }
+
+  if (mode !== 'live') {
+    throw new Error(`[LLM] Unknown LLM_MODE "${mode}". Expected live, record or replay.`);
+  }
+
+  return live;
+}
+
+function createLiveProvider(spec: string): LLMProvider {
+  const separator = spec.indexOf(':');
+  if (separator === -1) {
+    throw new Error(`[LLM] Invalid provider config "${spec}". Expected "provider:model".`);
+  }
+
+  const name = spec.slice(0, separator) as LLMProviderName;
+  const model = spec.slice(separator + 1);
+
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider(model);
+    case 'openai':
+      return new OpenAIProvider(model);
+    case 'anthropic':
+      return new AnthropicProvider(model);
+    default:
+      throw new Error(`[LLM] Unknown provider "${name}". Expected gemini, openai or anthropic.`);
+  }
+}
+
+function requireEnv(key: string): string {
+  const value = process.env[key];
+  if (!value) {
+    throw new Error(`${key} is not set in environment variables.`);
+  }
+  return value;
+}
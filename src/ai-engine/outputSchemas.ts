@@ -0,0 +1,296 @@
+// ============================================================
+// ASSURE CODE — LLM Output Schemas
+// Runtime schemas for every JSON document a model returns.
+// They mirror the interfaces in ../types — a response that
+// doesn't match is sent back to the model for repair.
+// ============================================================
+
+import { z } from 'zod';
+
+// ── Shared primitives ─────────────────────────────────────────
+
+const citations = z.array(z.string());
+const level = z.enum(['low', 'medium', 'high']);
+const severity = z.enum(['low', 'medium', 'high', 'critical']);
+
+// Models sometimes return numbers or lists where we store strings
+// (e.g. a clause "before" of 90) — keep them as JSON literals
+const clauseValue = z.preprocess(
+  v => (typeof v === 'string' ? v : v === null || v === undefined ? '' : JSON.stringify(v)),
+  z.string(),
+);
+
+export const MODULE_KEYS = [
+  'master_specification',
+  'security_blueprint',
+  'cost_analysis',
+  'tech_stack_justification',
+  'code_scaffolding',
+] as const;
+
+export const moduleKeySchema = z.enum(MODULE_KEYS);
+
+// ── Module 1: Master Specification ───────────────────────────
+
+export const masterSpecificationSchema = z.object({
+  projectName: z.string(),
+  projectSummary: z.string(),
+  problemStatement: z.string(),
+  targetUsers: z.array(z.string()),
+  coreFeatures: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    regulationsCited: citations,
+  })),
+  dataFlows: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    dataType: z.string(),
+    regulationsCited: citations,
+  })),
+  nonFunctionalRequirements: z.array(z.object({
+    category: z.string(),
+    requirement: z.string(),
+    regulationsCited: citations,
+  })),
+  outOfScope: z.array(z.string()),
+  regulationsApplied: citations,
+});
+
+// ── Module 2: Security Blueprint ─────────────────────────────
+
+export const securityBlueprintSchema = z.object({
+  threatModel: z.array(z.object({
+    threat: z.string(),
+    likelihood: level,
+    impact: level,
+    mitigation: z.string(),
+    regulationsCited: citations,
+  })),
+  networkTopology: z.object({
+    description: z.string(),
+    zones: z.array(z.object({
+      name: z.string(),
+      assets: z.array(z.string()),
+      accessRules: z.array(z.string()),
+    })),
+  }),
+  encryptionControls: z.array(z.object({
+    mechanism: z.string(),
+    scope: z.string(),
+    algorithm: z.string(),
+    regulationsCited: citations,
+  })),
+  iamRules: z.array(z.object({
+    role: z.string(),
+    permissions: z.array(z.string()),
+    principle: z.string(),
+    regulationsCited: citations,
+  })),
+  auditLogging: z.object({
+    events: z.array(z.string()),
+    retentionDays: z.number().int().nonnegative(),
+    storage: z.string(),
+    regulationsCited: citations,
+  }),
+  incidentResponse: z.object({
+    detectionMethods: z.array(z.string()),
+    notificationTimeline: z.string(),
+    regulationsCited: citations,
+  }),
+  dataResidency: z.object({
+    regions: z.array(z.string()),
+    justification: z.string(),
+    regulationsCited: citations,
+  }),
+});
+
+// ── Module 3: Cost Analysis ───────────────────────────────────
+
+export const costAnalysisSchema = z.object({
+  summary: z.string(),
+  monthlyTotalUSD: z.number(),
+  breakdown: z.array(z.object({
+    service: z.string(),
+    provider: z.string(),
+    tier: z.string(),
+    monthlyCostUSD: z.number(),
+    complianceReason: z.string(),
+    regulationsCited: citations,
+    canReduceIfNonCompliant: z.boolean(),
+  })),
+  compliancePremium: z.object({
+    totalUSD: z.number(),
+    explanation: z.string(),
+  }),
+  scalingProjection: z.array(z.object({
+    usersCount: z.number(),
+    estimatedMonthlyCostUSD: z.number(),
+  })),
+  notes: z.string(),
+});
+
+// ── Module 4: Tech Stack Justification ───────────────────────
+
+export const techStackJustificationSchema = z.object({
+  summary: z.string(),
+  decisions: z.array(z.object({
+    category: z.string(),
+    chosen: z.string(),
+    alternatives: z.array(z.object({
+      name: z.string(),
+      rejectionReason: z.string(),
+      complianceIssue: z.string().nullish().transform(v => v ?? undefined),
+    })),
+    justification: z.string(),
+    regulationsCited: citations,
+    complianceBenefit: z.string(),
+  })),
+  vendorRiskAssessment: z.array(z.object({
+    vendor: z.string(),
+    service: z.string(),
+    riskLevel: level,
+    mitigations: z.array(z.string()),
+    regulationsCited: citations,
+  })),
+  openSourceLicenses: z.array(z.object({
+    package: z.string(),
+    license: z.string(),
+    compatible: z.boolean(),
+    notes: z.string(),
+  })),
+});
+
+// ── Module 5: Code Scaffolding ────────────────────────────────
+
+export const codeScaffoldingSchema = z.object({
+  fileTree: z.string(),
+  dockerfile: z.string(),
+  dockerCompose: z.string(),
+  envTemplate: z.string(),
+  ciPipeline: z.string(),
+  developerPrompt: z.string(),
+  setupInstructions: z.string(),
+  complianceAnnotations: z.array(z.object({
+    file: z.string(),
+    annotation: z.string(),
+    regulationsCited: citations,
+  })),
+});
+
+// ── Full 5-module spec (generateFullSpec) ─────────────────────
+
+export const fullSpecSchema = z.object({
+  master_specification: masterSpecificationSchema,
+  security_blueprint: securityBlueprintSchema,
+  cost_analysis: costAnalysisSchema,
+  tech_stack_justification: techStackJustificationSchema,
+  code_scaffolding: codeScaffoldingSchema,
+});
+
+export const MODULE_SCHEMAS = {
+  master_specification: masterSpecificationSchema,
+  security_blueprint: securityBlueprintSchema,
+  cost_analysis: costAnalysisSchema,
+  tech_stack_justification: techStackJustificationSchema,
+  code_scaffolding: codeScaffoldingSchema,
+} as const;
+
+// ── Draft Specification (generateDraft) ───────────────────────
+
+const techStackItem = z.object({
+  name: z.string(),
+  role: z.string(),
+  complianceJustification: z.string(),
+  regulationsCited: citations,
+});
+
+export const draftSpecificationSchema = z.object({
+  version: z.string().optional(),      // Stamped after generation
+  generatedAt: z.string().optional(),  // Stamped after generation
+  projectSummary: z.string(),
+  techStack: z.object({
+    languages: z.array(techStackItem),
+    cloudProviders: z.array(techStackItem),
+    databases: z.array(techStackItem),
+    thirdPartyServices: z.array(techStackItem),
+  }),
+  securityBlueprint: z.object({
+    networkTopology: z.string(),
+    encryptionControls: z.array(z.object({
+      mechanism: z.string(),
+      description: z.string(),
+      regulationsCited: citations,
+      implementation: z.string(),
+    })),
+    iamRules: z.array(z.object({
+      rule: z.string(),
+      principle: z.string(),
+      regulationsCited: citations,
+    })),
+    dataResidency: z.string(),
+    auditLogging: z.string(),
+  }),
+  costEstimate: z.object({
+    monthlyTotalUSD: z.number(),
+    breakdown: z.array(z.object({
+      service: z.string(),
+      monthlyCostUSD: z.number(),
+      complianceReason: z.string(),
+      tier: z.string(),
+    })),
+    notes: z.string(),
+  }),
+  codeScaffolding: z.object({
+    fileTree: z.string(),
+    dockerfile: z.string(),
+    dockerCompose: z.string().optional(),
+  }),
+  developerPrompt: z.string(),
+  regulationsApplied: citations,
+});
+
+// Claude's arbitration output: the amended draft plus its notes
+export const arbitratedDraftSchema = draftSpecificationSchema.extend({
+  arbitrationNotes: z.array(z.object({
+    finding: z.string(),
+    action: z.enum(['amended', 'accepted_risk', 'deferred']),
+    amendment: z.string(),
+  })),
+});
+
+// ── Scanner response (scanDraft) ──────────────────────────────
+// The model-provided part of a ScanResult — threshold and
+// scannedAt are stamped by the scanner itself
+
+export const scanFindingSchema = z.object({
+  issue: z.string(),
+  regulation: z.string(),
+  gap: z.string(),
+  remediation: z.string(),
+  riskLevel: level,
+  affectedSection: z.string(),
+});
+
+export const scanResponseSchema = z.object({
+  score: z.number().min(0).max(1),
+  passed: z.boolean().optional(),  // Recomputed from score
+  status: z.enum(['compliant', 'non_compliant', 'partial']),
+  executiveSummary: z.string(),
+  findings: z.array(scanFindingSchema),
+  suggestedControls: z.array(z.string()),
+});
+
+// ── Diff engine (detectAffectedModules / generateModuleDiffs) ─
+
+export const affectedModulesSchema = z.array(moduleKeySchema);
+
+// module and regulationTrigger are stamped by the diff engine
+export const clauseDiffsSchema = z.array(z.object({
+  clausePath: z.string().min(1),
+  fieldLabel: z.string(),
+  before: clauseValue,
+  after: clauseValue,
+  reason: z.string(),
+  severity,
+}));
@@ -1,32 +1,16 @@
 // ============================================================
-// ASSURE CODE — 5-Module Spec Generator (Gemini)
+// ASSURE CODE — 5-Module Spec Generator (drafter role)
 // Generates all 5 modules as distinct, structured documents.
 // Module 4 (Tech Stack Justification) is fully prompted here —
 // fixing the gap identified in the Gemini audit screenshots.
 // ============================================================
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-import { RetrievedRegulation, SpecVersion } from '../types';
+import { RetrievedRegulation, SpecVersion, CitationVerificationResult } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-
-const GEMINI_MODEL = 'gemini-1.5-pro-latest';
-
-let _model: GenerativeModel | null = null;
-
-function getModel(): GenerativeModel {
-  if (!_model) {
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    _model = genAI.getGenerativeModel({
-      model: GEMINI_MODEL,
-      generationConfig: {
-        responseMimeType: 'application/json',
-        temperature: 0.2,
-        maxOutputTokens: 32768,
-      },
-    });
-  }
-  return _model;
-}
+import { generateValidated } from './structuredOutput';
+import { fullSpecSchema } from './outputSchemas';
+import { getLLM } from './llmProvider';
+import { verifyCitations } from '../scanner/citationVerifier';
 
 export interface GenerateSpecInput {
   projectIdea: string;
@@ -37,12 +21,17 @@ export interface GenerateSpecInput {
   createdBy: string;
 }
 
+export interface GeneratedSpec extends SpecVersion {
+  citationVerification: CitationVerificationResult; // Every module's regulationsCited vs input.regulations
+}
+
 /**
- * Generate all 5 modules in a single Gemini call.
- * Returns a fully populated SpecVersion ready to insert into DB.
+ * Generate all 5 modules in a single drafter call.
+ * Returns a fully populated SpecVersion ready to insert into DB,
+ * with its citations checked against the regulations it was given.
  */
-export async function generateFullSpec(input: GenerateSpecInput): Promise<SpecVersion> {
-  const model = getModel();
+export async function generateFullSpec(input: GenerateSpecInput): Promise<GeneratedSpec> {
+  const llm = getLLM('drafter');
 
   const regulatoryContext = input.regulations
     .map(r => `[${r.framework} ${r.article} | similarity: ${r.similarity.toFixed(2)}]\n${r.title}\n${r.content}`)
@@ -52,18 +41,27 @@ export async function generateFullSpec(input: GenerateSpecInput): Promise<SpecVe
 
   console.log(`[SpecGenerator] Generating 5-module spec for: "${input.projectIdea.slice(0, 80)}..."`);
 
-  const result = await model.generateContent(prompt);
-  const rawText = result.response.text();
+  const parsed = await generateValidated({
+    label: 'SpecGenerator',
+    prompt,
+    schema: fullSpecSchema,
+    complete: p => llm.complete({
+      prompt: p,
+      json: true,
+      temperature: 0.2,
+      maxTokens: 32768,
+    }),
+  });
 
-  let parsed: any;
-  try {
-    const cleaned = rawText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
-    parsed = JSON.parse(cleaned);
-  } catch {
-    throw new Error('[SpecGenerator] Failed to parse Gemini response as JSON.');
-  }
+  const modules: SpecVersion['modules'] = {
+    master_specification: parsed.master_specification,
+    security_blueprint: parsed.security_blueprint,
+    cost_analysis: parsed.cost_analysis,
+    tech_stack_justification: parsed.tech_stack_justification,
+    code_scaffolding: parsed.code_scaffolding,
+  };
 
-  const specVersion: SpecVersion = {
+  const specVersion: GeneratedSpec = {
     id: uuidv4(),
     workspaceId: input.workspaceId,
     parentId: null,
@@ -74,19 +72,21 @@ export async function generateFullSpec(input: GenerateSpecInput): Promise<SpecVe
     triggeredBy: 'user',
     jurisdictions: input.jurisdictions,
     frameworks: input.frameworks,
-    modules: {
-      master_specification: parsed.master_specification,
-      security_blueprint: parsed.security_blueprint,
-      cost_analysis: parsed.cost_analysis,
-      tech_stack_justification: parsed.tech_stack_justification,
-      code_scaffolding: parsed.code_scaffolding,
-    },
+    modules,
     createdBy: input.createdBy,
     createdAt: new Date().toISOString(),
+    citationVerification: verifyCitations(modules, input.regulations),
   };
 
   console.log('[SpecGenerator] All 5 modules generated successfully.');
 
+  if (specVersion.citationVerification.hallucinated.length > 0) {
+    console.warn(
+      `[SpecGenerator] ${specVersion.citationVerification.hallucinated.length} citation(s) not in the regulatory context: ` +
+      specVersion.citationVerification.hallucinated.map(h => h.citation).join(', '),
+    );
+  }
+
   return specVersion;
 }
 
@@ -0,0 +1,383 @@
+// ============================================================
+// ASSURE CODE — Spec Embeddings (Supabase + pgvector)
+// Embeddings of every module of a spec version, whole and per
+// major section (its top-level fields), so impact analysis is
+// one vector query instead of an embedding call per candidate
+// spec — and can tell which modules a regulation touches.
+//
+// Table spec_embeddings:
+//   spec_version_id | section (pk together) | module | workspace_id
+//   embedding vector(1536) | model | content_hash | updated_at
+//   section is "<module>" for the whole module, or
+//   "<module>.<field>", e.g. "security_blueprint.auditLogging"
+//
+// RPC score_spec_modules(query_embedding, spec_ids, embedding_model):
+//   For each listed version and module, the highest cosine
+//   similarity (1 - <=>) of any of its embeddings from that
+//   model to the query, and the section it came from.
+//   Returns spec_version_id, module, similarity, section.
+//
+// Embeddings are written when a patched version lands on the main
+// line (specEmbeddingConsumer, on spec.updated) and backfilled on
+// demand — which is how first versions get theirs. A patch
+// touches a few sections at most, so any section whose text
+// hashes the same as an already-embedded one reuses that
+// vector instead of calling the API.
+// ============================================================
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { embedDocuments, getEmbeddingModel } from './embeddings';
+import { ModuleKey, ModuleImpactScores } from '../types';
+
+const UPSERT_CHUNK_SIZE = 50;
+
+// Filters go in the PostgREST query string, so id and hash lists
+// are sent in chunks that keep the URL well under server limits
+const SPEC_CHUNK_SIZE = 20;       // Spec versions loaded and embedded per pass (~50 sections each)
+const ID_LOOKUP_CHUNK_SIZE = 100;
+const HASH_LOOKUP_CHUNK_SIZE = 100;
+
+// Well under the embedding model's 8k-token input limit
+const MAX_SECTION_TEXT_CHARS = 8000;
+
+const MODULE_KEYS: ModuleKey[] = [
+  'master_specification',
+  'security_blueprint',
+  'cost_analysis',
+  'tech_stack_justification',
+  'code_scaffolding',
+];
+
+interface SpecEmbeddingRow {
+  spec_version_id: string;
+  section: string;
+  module: ModuleKey;
+  workspace_id: string;
+  embedding: number[];
+  model: string;
+  content_hash: string;
+  updated_at: string;
+}
+
+export interface SpecModuleScores {
+  specVersionId: string;
+  moduleScores: ModuleImpactScores;
+  topSections: Partial<Record<ModuleKey, string>>;  // Best-matching section per module
+}
+
+export interface SectionText {
+  module: ModuleKey;
+  section: string;
+  text: string;
+}
+
+function getSupabase() {
+  return createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  );
+}
+
+/**
+ * The texts a spec version is embedded as: each module whole,
+ * then each of its top-level fields.
+ */
+export function buildSectionTexts(modules: Partial<Record<ModuleKey, unknown>>): SectionText[] {
+  const sections: SectionText[] = [];
+
+  for (const module of MODULE_KEYS) {
+    const data = modules[module];
+    if (!data || typeof data !== 'object') continue;
+
+    const whole = flattenForEmbedding(data);
+    if (whole.length > 0) {
+      sections.push({ module, section: module, text: toSectionText(humanize(module), whole) });
+    }
+
+    for (const [field, value] of Object.entries(data)) {
+      const lines = flattenForEmbedding(value);
+      if (lines.length === 0) continue;
+      sections.push({
+        module,
+        section: `${module}.${field}`,
+        text: toSectionText(`${humanize(module)} — ${humanize(field)}`, lines),
+      });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Make sure every listed spec version has current embeddings from
+ * the configured embedder.
+ * Missing ones are embedded SPEC_CHUNK_SIZE versions at a time.
+ * Returns how many embeddings were written.
+ */
+export async function ensureSpecEmbeddings(specVersionIds: string[]): Promise<number> {
+  if (specVersionIds.length === 0) return 0;
+
+  const supabase = getSupabase();
+  const embedded = new Set<string>();
+
+  // A version's whole-master-spec row is written with the rest — its presence means embedded
+  for (const ids of chunk(specVersionIds, ID_LOOKUP_CHUNK_SIZE)) {
+    const { data: existing, error } = await supabase
+      .from('spec_embeddings')
+      .select('spec_version_id')
+      .eq('model', getEmbeddingModel())
+      .eq('section', 'master_specification')
+      .in('spec_version_id', ids);
+
+    if (error) {
+      throw new Error(`[SpecEmbeddings] Failed to load embeddings: ${error.message}`);
+    }
+
+    for (const row of existing ?? []) embedded.add(row.spec_version_id);
+  }
+
+  const missing = specVersionIds.filter(id => !embedded.has(id));
+  if (missing.length === 0) return 0;
+
+  console.log(`[SpecEmbeddings] Backfilling ${missing.length} spec embedding(s).`);
+  return embedSpecVersions(missing);
+}
+
+/**
+ * (Re-)embed one spec version — called when it lands on the main line.
+ * A no-op if its stored embedding already matches its text.
+ */
+export async function refreshSpecEmbedding(specVersionId: string): Promise<void> {
+  await embedSpecVersions([specVersionId]);
+}
+
+/**
+ * Score each listed spec version's modules against the query:
+ * per module, the best similarity of the module or any of its
+ * sections. Versions without embeddings are left out — call
+ * ensureSpecEmbeddings first.
+ */
+export async function scoreSpecModules(
+  queryEmbedding: number[],
+  specVersionIds: string[],
+): Promise<SpecModuleScores[]> {
+  if (specVersionIds.length === 0) return [];
+
+  const { data, error } = await getSupabase().rpc('score_spec_modules', {
+    query_embedding: queryEmbedding,
+    spec_ids: specVersionIds,
+    embedding_model: getEmbeddingModel(),
+  });
+
+  if (error) {
+    throw new Error(`[SpecEmbeddings] Similarity query failed: ${error.message}`);
+  }
+
+  const bySpec = new Map<string, SpecModuleScores>();
+
+  for (const row of data ?? []) {
+    let scores = bySpec.get(row.spec_version_id);
+    if (!scores) {
+      scores = { specVersionId: row.spec_version_id, moduleScores: {}, topSections: {} };
+      bySpec.set(row.spec_version_id, scores);
+    }
+    scores.moduleScores[row.module as ModuleKey] = row.similarity;
+    scores.topSections[row.module as ModuleKey] = row.section;
+  }
+
+  return [...bySpec.values()];
+}
+
+/**
+ * scoreSpecModules for versions without stored embeddings: their
+ * sections are embedded on the fly and nothing is written. For dry
+ * runs — a real run stores them (ensureSpecEmbeddings) instead.
+ */
+export async function scoreSpecModulesInMemory(
+  queryEmbedding: number[],
+  specVersionIds: string[],
+): Promise<SpecModuleScores[]> {
+  const results: SpecModuleScores[] = [];
+
+  for (const ids of chunk(specVersionIds, SPEC_CHUNK_SIZE)) {
+    const { data: specs, error } = await getSupabase()
+      .from('spec_versions')
+      .select(`id, ${MODULE_KEYS.join(', ')}`)
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`[SpecEmbeddings] Failed to load spec versions: ${error.message}`);
+    }
+
+    const texts = (specs ?? []).flatMap((spec: any) =>
+      buildSectionTexts(spec).map(section => ({ ...section, specVersionId: spec.id as string })),
+    );
+    if (texts.length === 0) continue;
+
+    const vectors = await embedDocuments(texts.map(t => t.text));
+    const bySpec = new Map<string, SpecModuleScores>();
+
+    texts.forEach((t, i) => {
+      let scores = bySpec.get(t.specVersionId);
+      if (!scores) {
+        scores = { specVersionId: t.specVersionId, moduleScores: {}, topSections: {} };
+        bySpec.set(t.specVersionId, scores);
+      }
+
+      const similarity = cosineSimilarity(queryEmbedding, vectors[i]);
+      if (similarity > (scores.moduleScores[t.module] ?? -Infinity)) {
+        scores.moduleScores[t.module] = similarity;
+        scores.topSections[t.module] = t.section;
+      }
+    });
+
+    results.push(...bySpec.values());
+  }
+
+  return results;
+}
+
+// ── Internals ─────────────────────────────────────────────────
+
+async function embedSpecVersions(specVersionIds: string[]): Promise<number> {
+  let written = 0;
+  for (const ids of chunk(specVersionIds, SPEC_CHUNK_SIZE)) {
+    written += await embedSpecVersionChunk(ids);
+  }
+  return written;
+}
+
+async function embedSpecVersionChunk(specVersionIds: string[]): Promise<number> {
+  const supabase = getSupabase();
+
+  const { data: specs, error } = await supabase
+    .from('spec_versions')
+    .select(`id, workspace_id, ${MODULE_KEYS.join(', ')}`)
+    .in('id', specVersionIds);
+
+  if (error) {
+    throw new Error(`[SpecEmbeddings] Failed to load spec versions: ${error.message}`);
+  }
+
+  const texts = (specs ?? []).flatMap((spec: any) =>
+    buildSectionTexts(spec).map(section => ({
+      ...section,
+      specVersionId: spec.id as string,
+      workspaceId: spec.workspace_id as string,
+      hash: hashText(section.text),
+    })),
+  );
+
+  if (texts.length === 0) return 0;
+
+  // Reuse any stored vector for identical text (usually the parent version's)
+  const vectorsByHash = new Map<string, number[]>();
+  const upToDate = new Set<string>();
+
+  for (const hashes of chunk([...new Set(texts.map(t => t.hash))], HASH_LOOKUP_CHUNK_SIZE)) {
+    const { data: known, error: knownError } = await supabase
+      .from('spec_embeddings')
+      .select('spec_version_id, section, content_hash, embedding')
+      .eq('model', getEmbeddingModel())
+      .in('content_hash', hashes);
+
+    if (knownError) {
+      throw new Error(`[SpecEmbeddings] Failed to look up embeddings: ${knownError.message}`);
+    }
+
+    for (const row of known ?? []) {
+      vectorsByHash.set(row.content_hash, parseVector(row.embedding));
+      upToDate.add(`${row.spec_version_id}:${row.section}:${row.content_hash}`);
+    }
+  }
+
+  const stale = texts.filter(t => !upToDate.has(`${t.specVersionId}:${t.section}:${t.hash}`));
+  if (stale.length === 0) return 0;
+
+  const toEmbed = [...new Map(stale.filter(t => !vectorsByHash.has(t.hash)).map(t => [t.hash, t.text]))];
+
+  if (toEmbed.length > 0) {
+    const vectors = await embedDocuments(toEmbed.map(([, text]) => text));
+    toEmbed.forEach(([hash], i) => vectorsByHash.set(hash, vectors[i]));
+  }
+
+  const now = new Date().toISOString();
+  const model = getEmbeddingModel();
+  const rows: SpecEmbeddingRow[] = stale.map(t => ({
+    spec_version_id: t.specVersionId,
+    section: t.section,
+    module: t.module,
+    workspace_id: t.workspaceId,
+    embedding: vectorsByHash.get(t.hash)!,
+    model,
+    content_hash: t.hash,
+    updated_at: now,
+  }));
+
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const { error: upsertError } = await supabase
+      .from('spec_embeddings')
+      .upsert(rows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'spec_version_id,section' });
+
+    if (upsertError) {
+      throw new Error(`[SpecEmbeddings] Failed to store embeddings: ${upsertError.message}`);
+    }
+  }
+
+  console.log(
+    `[SpecEmbeddings] Stored ${rows.length} embedding(s) ` +
+    `(${toEmbed.length} computed, ${rows.length - toEmbed.length} reused).`,
+  );
+
+  return rows.length;
+}
+
+// Nested JSON → "Field: value" lines
+function flattenForEmbedding(value: unknown, label = ''): string[] {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.flatMap(v => flattenForEmbedding(v, label));
+  if (typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, v]) => flattenForEmbedding(v, humanize(key)));
+  }
+  return [label ? `${label}: ${value}` : String(value)];
+}
+
+function toSectionText(heading: string, lines: string[]): string {
+  return `${heading}\n${lines.join('\n')}`.slice(0, MAX_SECTION_TEXT_CHARS);
+}
+
+// "auditLogging" → "Audit Logging", "security_blueprint" → "Security Blueprint"
+function humanize(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, c => c.toUpperCase());
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// PostgREST returns pgvector columns as "[0.1,0.2,…]" strings
+function parseVector(value: unknown): number[] {
+  return typeof value === 'string' ? JSON.parse(value) : (value as number[]);
+}
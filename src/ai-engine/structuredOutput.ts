@@ -0,0 +1,117 @@
+// ============================================================
+// ASSURE CODE — Structured Output (validate + repair)
+// Every model call that returns JSON goes through
+// generateValidated(): parse, validate against a schema, and
+// on failure re-prompt the model with the validation errors.
+// After MAX_REPAIR_ATTEMPTS the call fails with a typed error.
+// ============================================================
+
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+
+// Repair attempts after the first response (so 3 calls max)
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Thrown when a model's output still fails validation after
+ * the repair loop is exhausted.
+ */
+export class LLMOutputValidationError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly attempts: number,
+    public readonly issues: string[],
+    public readonly rawOutput: string,
+  ) {
+    super(
+      `[${label}] Model output failed validation after ${attempts} attempt(s): ` +
+      issues.slice(0, 5).join('; '),
+    );
+    this.name = 'LLMOutputValidationError';
+  }
+}
+
+export interface GenerateValidatedOptions<T> {
+  label: string;                                   // Log tag, e.g. "DraftEngine"
+  prompt: string;
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  complete: (prompt: string) => Promise<string>;   // One model call → raw text
+  maxRepairAttempts?: number;
+}
+
+/**
+ * Call the model, parse its JSON and validate it against `schema`.
+ * Invalid output is sent back with the list of problems until it
+ * validates or the attempt budget runs out.
+ */
+export async function generateValidated<T>(options: GenerateValidatedOptions<T>): Promise<T> {
+  const { label, prompt, schema, complete } = options;
+  const maxAttempts = 1 + (options.maxRepairAttempts ?? MAX_REPAIR_ATTEMPTS);
+
+  let currentPrompt = prompt;
+  let rawText = '';
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    rawText = await complete(currentPrompt);
+
+    let parsed: unknown;
+    try {
+      parsed = parseModelJson(rawText);
+      issues = [];
+    } catch (err: any) {
+      issues = [`Response is not valid JSON: ${err.message}`];
+    }
+
+    if (issues.length === 0) {
+      const result = schema.safeParse(parsed);
+      if (result.success) {
+        if (attempt > 1) console.log(`[${label}] Output validated after ${attempt} attempts.`);
+        return result.data;
+      }
+      issues = formatZodIssues(result.error);
+    }
+
+    console.warn(
+      `[${label}] Attempt ${attempt}/${maxAttempts} failed validation (${issues.length} issue(s)): ` +
+      issues.slice(0, 3).join('; '),
+    );
+
+    currentPrompt = buildRepairPrompt(prompt, rawText, issues);
+  }
+
+  throw new LLMOutputValidationError(label, maxAttempts, issues, rawText.slice(0, 2000));
+}
+
+/**
+ * Parse model text as JSON, stripping markdown fences the
+ * models add despite being told not to.
+ */
+export function parseModelJson(text: string): unknown {
+  const cleaned = text.replace(/^\s*```(?:json)?\n?/, '').replace(/\n?```\s*$/, '').trim();
+  if (!cleaned) throw new Error('empty response');
+  return JSON.parse(cleaned);
+}
+
+export function formatZodIssues(error: ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.length > 0
+      ? issue.path.map(p => (typeof p === 'number' ? `[${p}]` : `.${p}`)).join('').replace(/^\./, '')
+      : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+}
+
+function buildRepairPrompt(originalPrompt: string, previousOutput: string, issues: string[]): string {
+  return `${originalPrompt}
+
+<previous_response>
+${previousOutput.slice(0, 12000)}
+</previous_response>
+
+<validation_errors>
+${issues.slice(0, 50).map(i => `- ${i}`).join('\n')}
+</validation_errors>
+
+Your previous response did not match the required JSON schema. Fix every validation error listed above.
+Respond with ONLY the corrected, complete JSON — no commentary, no markdown fences.`;
+}
@@ -1,14 +1,24 @@
 // ============================================================
 // ASSURE CODE — Vector Store (Supabase + pgvector)
 // Handles storage and retrieval of regulatory embeddings
+//
+// regulations.embedding_model records which embedder produced
+// each row's vector; match_regulations(…, filter_model) only
+// compares against rows from the configured one.
 // ============================================================
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Regulation, RetrievedRegulation } from '../types';
-import { embedQuery, buildRegulationEmbeddingText, embedDocuments } from './embeddings';
+import {
+  embedQuery,
+  buildRegulationEmbeddingText,
+  embedDocuments,
+  getEmbeddingModel,
+  getDefaultThresholds,
+} from './embeddings';
 
 // Tune these for your precision/recall tradeoff
-const DEFAULT_MATCH_THRESHOLD = 0.70; // Minimum cosine similarity
+// (the minimum cosine similarity defaults to the embedder's match threshold)
 const DEFAULT_TOP_K = 15;             // Max regulations returned
 
 let _client: SupabaseClient | null = null;
@@ -45,7 +55,7 @@ export async function retrieveRegulations(
   frameworks: string[],
   jurisdictions: string[],
   topK: number = DEFAULT_TOP_K,
-  threshold: number = DEFAULT_MATCH_THRESHOLD
+  threshold: number = getDefaultThresholds().match
 ): Promise<RetrievedRegulation[]> {
   const supabase = getClient();
 
@@ -61,6 +71,7 @@ export async function retrieveRegulations(
     match_count: topK,
     filter_frameworks: frameworks,
     filter_jurisdictions: jurisdictions,
+    filter_model: getEmbeddingModel(),
   });
 
   if (error) {
@@ -115,6 +126,7 @@ export async function upsertRegulations(
   }
 
   // Build upsert records
+  const embeddingModel = getEmbeddingModel();
   const records = regulations.map((reg, i) => ({
     framework: reg.framework,
     article: reg.article,
@@ -124,6 +136,7 @@ export async function upsertRegulations(
     severity: reg.severity,
     tags: reg.tags,
     embedding: embeddings[i],
+    embedding_model: embeddingModel,
     updated_at: new Date().toISOString(),
   }));
 
@@ -53,10 +53,152 @@ export async function getSpecVersionChain(specVersionId: string) {
   return apiFetch<any[]>(`/specs/${specVersionId}/history`);
 }
 
+export async function getSpecImpactAnalyses(specVersionId: string) {
+  return apiFetch<any[]>(`/specs/${specVersionId}/impact-analyses`);
+}
+
 export async function getSpecDiffs(fromVersionId: string, toVersionId: string) {
   return apiFetch<any[]>(`/specs/diffs?from=${fromVersionId}&to=${toVersionId}`);
 }
 
+export async function compareSpecs(fromVersionId: string, toVersionId: string) {
+  return apiFetch<{ from: any; to: any; diffs: any[]; affectedModules: string[] }>(
+    `/specs/compare?from=${fromVersionId}&to=${toVersionId}`,
+  );
+}
+
+export async function previewRegulationImpact(regulation: {
+  id: string;
+  framework: string;
+  article: string;
+  title: string;
+  content: string;
+  jurisdiction: string;
+  severity: string;
+}) {
+  return apiFetch<any>('/specs/impact-preview', {
+    method: 'POST',
+    body: JSON.stringify({ regulation }),
+  });
+}
+
+export async function createSpecBranch(
+  fromVersionId: string,
+  payload: { name: string; description?: string; jurisdictions?: string[]; frameworks?: string[] },
+) {
+  return apiFetch<{ branch: any; version: any }>(`/specs/${fromVersionId}/branches`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function listSpecBranches(status?: 'open' | 'merged') {
+  return apiFetch<any[]>(`/specs/branches${status ? `?status=${status}` : ''}`);
+}
+
+export async function compareSpecBranch(branchId: string) {
+  return apiFetch<any>(`/specs/branches/${branchId}/compare`);
+}
+
+export async function mergeSpecBranch(
+  branchId: string,
+  payload: { onConflict?: 'fail' | 'keep_main' | 'take_branch'; reason?: string; openPullRequest?: boolean } = {},
+) {
+  return apiFetch<{ version: any; branch: any; diffs: any[]; conflicts: any[] }>(
+    `/specs/branches/${branchId}/merge`,
+    { method: 'POST', body: JSON.stringify(payload) },
+  );
+}
+
+export async function revertSpec(
+  specVersionId: string,
+  payload: { targetVersionId: string; reason?: string; openPullRequest?: boolean },
+) {
+  return apiFetch<{ version: any; diffs: any[]; affectedModules: string[]; pullRequestRequested: boolean }>(
+    `/specs/${specVersionId}/revert`,
+    { method: 'POST', body: JSON.stringify(payload) },
+  );
+}
+
+export async function editSpecClauses(
+  specVersionId: string,
+  payload: {
+    reason: string;
+    edits: Array<{
+      module: string;
+      clausePath: string;
+      after: unknown;
+      before?: string;
+      fieldLabel?: string;
+      severity?: 'low' | 'medium' | 'high' | 'critical';
+    }>;
+  },
+) {
+  return apiFetch<{ version: any; diffs: any[]; affectedModules: string[] }>(
+    `/specs/${specVersionId}/clauses`,
+    { method: 'POST', body: JSON.stringify(payload) },
+  );
+}
+
+export async function approveSpec(specVersionId: string) {
+  return apiFetch<any>(`/specs/${specVersionId}/approve`, { method: 'POST' });
+}
+
+export async function rejectSpec(specVersionId: string, reason: string) {
+  return apiFetch<{ archivedVersionIds: string[]; repatchedRegulationIds: string[] }>(`/specs/${specVersionId}/reject`, {
+    method: 'POST',
+    body: JSON.stringify({ reason }),
+  });
+}
+
+export async function getSpecReview(specVersionId: string) {
+  return apiFetch<any>(`/specs/${specVersionId}/review`);
+}
+
+export async function commentOnSpecDiff(specVersionId: string, diffId: string, body: string) {
+  return apiFetch<any>(`/specs/${specVersionId}/diffs/${diffId}/comments`, {
+    method: 'POST',
+    body: JSON.stringify({ body }),
+  });
+}
+
+export async function reviewSpecDiff(
+  specVersionId: string,
+  diffId: string,
+  payload: { decision: 'accepted' | 'rejected'; reason?: string },
+) {
+  return apiFetch<any>(`/specs/${specVersionId}/diffs/${diffId}/review`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function finalizeSpecReview(specVersionId: string) {
+  return apiFetch<{ version: any; accepted: any[]; rejected: any[]; repatchedRegulationIds?: string[] }>(
+    `/specs/${specVersionId}/review/finalize`,
+    { method: 'POST' },
+  );
+}
+
+export async function updateWorkspaceSettings(
+  workspaceId: string,
+  payload: {
+    patchApprovalPolicy?: 'auto' | 'require_approval';
+    versioningPolicy?: {
+      majorSeverities?: Array<'low' | 'medium' | 'high' | 'critical'>;
+      majorPaths?: string[];
+      structuralChangesAreMajor?: boolean;
+      patchSeverities?: Array<'low' | 'medium' | 'high' | 'critical'>;
+    };
+    semanticThreshold?: number | null;
+  },
+) {
+  return apiFetch<any>(`/workspaces/${workspaceId}/settings`, {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+}
+
 export async function createSpec(payload: {
   projectIdea: string;
   jurisdictions: string[];
@@ -72,7 +214,13 @@ export async function createSpec(payload: {
 
 export function streamJobStatus(
   jobId: string,
-  onUpdate: (event: { status: string; progress: number; message?: string }) => void,
+  onUpdate: (event: {
+    status: string;
+    progress: number;
+    stage?: string;
+    message?: string;
+    detail?: Record<string, unknown>;
+  }) => void,
   onComplete: (result: any) => void,
 ): () => void {
   const url = `${API_URL}/compliance/jobs/${jobId}/stream`;
@@ -83,7 +231,7 @@ export function streamJobStatus(
 
   es.onmessage = (e) => {
     const data = JSON.parse(e.data);
-    if (data.status === 'completed' || data.status === 'failed') {
+    if (data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled') {
       es.close();
       onComplete(data);
     } else {
@@ -96,6 +244,18 @@ export function streamJobStatus(
   return () => es.close();
 }
 
+export async function cancelJob(jobId: string) {
+  return apiFetch<{ jobId: string; status: string }>(`/compliance/jobs/${jobId}/cancel`, {
+    method: 'POST',
+  });
+}
+
+export async function retryJob(jobId: string) {
+  return apiFetch<{ jobId: string; streamUrl: string }>(`/compliance/jobs/${jobId}/retry`, {
+    method: 'POST',
+  });
+}
+
 // ── Regulations ───────────────────────────────────────────────
 
 export async function listRegulationImpactLog(workspaceId?: string) {
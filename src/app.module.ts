@@ -6,6 +6,7 @@ import { AuthModule } from './auth/auth.module';
 import { WorkspacesModule } from './workspaces/workspaces.module';
 import { ComplianceModule } from './compliance/compliance.module';
 import { BillingModule } from './billing/billing.module';
+import { SpecsModule } from './specs/specs.module';
 import { QueueModule } from './queue/queue.module';
 
 @Module({
@@ -50,6 +51,7 @@ import { QueueModule } from './queue/queue.module';
     WorkspacesModule,
     ComplianceModule,
     BillingModule,
+    SpecsModule,
     QueueModule,
   ],
 })
@@ -7,7 +7,10 @@
 import 'dotenv/config';
 import { startRegulationConsumer } from './events/regulationConsumer';
 import { startGitHubPRConsumer } from './github/githubPRConsumer';
+import { startSpecEmbeddingConsumer } from './infrastructure/specEmbeddingConsumer';
 import { getQueueStats } from './queue/specPatchQueue';
+import { getEventBus } from './infrastructure/eventBusRegistry';
+import { startOutboxRelay } from './infrastructure/outboxRelay';
 
 export async function bootstrap(): Promise<void> {
   console.log('\n========================================');
@@ -15,14 +18,24 @@ export async function bootstrap(): Promise<void> {
   console.log('========================================\n');
 
   // ── Validate required env vars ─────────────────────────────
+  // LLM keys are only needed when models are called live.
+  // Embeddings aren't replayed, so OpenAI's key stays required
+  // unless the local embedder is configured.
+  const llmKeys = process.env.LLM_MODE === 'replay'
+    ? []
+    : ['OPENAI_API_KEY', 'GEMINI_API_KEY', 'ANTHROPIC_API_KEY'];
+  const embedderKeys = process.env.EMBEDDER?.startsWith('local') ? [] : ['OPENAI_API_KEY'];
+  const modelKeys = [...llmKeys, ...embedderKeys.filter(key => !llmKeys.includes(key))];
+
+  // No broker needed when the event bus runs in-process
+  const kafkaKeys = process.env.EVENT_BUS === 'memory' ? [] : ['KAFKA_BROKERS'];
+
   const required = [
     'SUPABASE_URL',
     'SUPABASE_SERVICE_ROLE_KEY',
-    'OPENAI_API_KEY',
-    'GEMINI_API_KEY',
-    'ANTHROPIC_API_KEY',
+    ...modelKeys,
     'REDIS_HOST',
-    'KAFKA_BROKERS',
+    ...kafkaKeys,
     'GITHUB_APP_ID',
     'GITHUB_APP_PRIVATE_KEY',
   ];
@@ -34,10 +47,14 @@ export async function bootstrap(): Promise<void> {
   }
 
   // ── Start Kafka consumers ──────────────────────────────────
-  console.log('[Bootstrap] Starting Kafka consumers...');
+  console.log(`[Bootstrap] Starting event consumers (bus: ${getEventBus().name})...`);
 
   await startRegulationConsumer(); // regulation.new → spec patch jobs
   await startGitHubPRConsumer();   // spec.pr_requested → GitHub PRs
+  await startSpecEmbeddingConsumer(); // spec.updated → spec embeddings
+
+  // ── Start outbox relay ─────────────────────────────────────
+  startOutboxRelay();              // event_outbox → event bus
 
   // ── Log queue stats ────────────────────────────────────────
   const stats = await getQueueStats();
@@ -47,6 +64,8 @@ export async function bootstrap(): Promise<void> {
   console.log('[Bootstrap] Listening for:');
   console.log('  - Kafka: regulation.new, regulation.updated');
   console.log('  - Kafka: spec.pr_requested');
+  console.log('  - Kafka: spec.updated');
+  console.log('  - Outbox: event_outbox → event bus');
   console.log('  - BullMQ: spec-patch (concurrency: 3)');
   console.log('  - BullMQ: github-pr (concurrency: 2)');
   console.log('\n');
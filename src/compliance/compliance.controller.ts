@@ -29,7 +29,7 @@ import {
   IsOptional,
   MaxLength,
 } from 'class-validator';
-import { Observable, interval, from, switchMap, takeWhile, map, finalize } from 'rxjs';
+import { Observable, map } from 'rxjs';
 import { ComplianceService } from './compliance.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { CurrentUser, JwtPayload } from '../common/decorators/current-user.decorator';
@@ -120,39 +120,72 @@ export class ComplianceController {
    * Server-Sent Events stream for real-time job progress.
    * Connect from the frontend with EventSource API.
    *
-   * Emits: { status, progress, message } every 2 seconds until complete.
+   * Emits the current state on connect, then every stage event the
+   * worker publishes: { status, progress, stage, message, detail }.
    */
   @Sse('jobs/:jobId/stream')
   @ApiOperation({
     summary: 'SSE stream for real-time job progress',
-    description: 'Connect with EventSource. Closes automatically when job completes or fails.',
+    description:
+      'Connect with EventSource. Events are pushed as the pipeline moves through ' +
+      'retrieval, draft, scan and arbitration. Closes when the job completes, fails or is cancelled.',
   })
   streamJobProgress(
     @Param('jobId') jobId: string,
     @CurrentUser() user: JwtPayload,
   ): Observable<MessageEvent> {
-    // Poll the job status every 2 seconds and emit as SSE
-    return interval(2000).pipe(
-      switchMap(() =>
-        from(this.complianceService.getJobStatus(jobId, user.workspaceId)),
-      ),
-      takeWhile(
-        (status) => status.status !== 'completed' && status.status !== 'failed',
-        true, // Include the final status before completing
-      ),
-      map((status) => ({
-        data: JSON.stringify({
-          jobId,
-          status: status.status,
-          progress: status.progress,
-          message: getProgressMessage(status.progress),
-          errorMessage: status.errorMessage,
-          completedAt: status.completedAt,
-        }),
-      })),
+    return this.complianceService.streamJobProgress(jobId, user.workspaceId).pipe(
+      map((event) => ({ data: JSON.stringify(event) })),
     );
   }
 
+  /**
+   * POST /api/v1/compliance/jobs/:jobId/cancel
+   * Cancel a queued or running job. Refunds the report against the monthly limit.
+   */
+  @Post('jobs/:jobId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a queued or running compliance job',
+    description:
+      'Queued jobs are removed immediately. Running jobs stop at the next pipeline checkpoint. ' +
+      'The report is refunded against the monthly plan limit.',
+  })
+  @ApiResponse({ status: 409, description: 'Job has already completed, failed or been cancelled.' })
+  async cancelJob(
+    @Param('jobId') jobId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.complianceService.cancelJob(jobId, user.workspaceId);
+  }
+
+  /**
+   * POST /api/v1/compliance/jobs/:jobId/retry
+   * Re-run a failed or cancelled job with its original payload.
+   */
+  @Post('jobs/:jobId/retry')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Re-run a failed or cancelled compliance job',
+    description: 'Re-enqueues the job under the same jobId with its original payload.',
+  })
+  @ApiResponse({ status: 202, description: 'Job re-queued.' })
+  @ApiResponse({ status: 402, description: 'Monthly report limit reached (retrying a cancelled job).' })
+  @ApiResponse({ status: 409, description: 'Job is not in a failed or cancelled state.' })
+  async retryJob(
+    @Param('jobId') jobId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const result = await this.complianceService.retryJob(jobId, user.workspaceId);
+
+    return {
+      jobId: result.jobId,
+      queuePosition: result.queuePosition,
+      statusUrl: `/api/v1/compliance/jobs/${result.jobId}/status`,
+      streamUrl: `/api/v1/compliance/jobs/${result.jobId}/stream`,
+    };
+  }
+
   /**
    * GET /api/v1/compliance/jobs/:jobId/report
    * Retrieve the completed compliance report.
@@ -186,13 +219,3 @@ export class ComplianceController {
     return this.complianceService.listJobs(user.workspaceId, page, Math.min(limit, 100));
   }
 }
-
-// ── Helpers ──────────────────────────────────────────────────
-
-function getProgressMessage(progress: number): string {
-  if (progress < 20) return 'Retrieving relevant regulations...';
-  if (progress < 50) return 'Generating technical specification with Gemini...';
-  if (progress < 80) return 'Running Gold Standard compliance scan...';
-  if (progress < 100) return 'Claude is arbitrating final report...';
-  return 'Complete!';
-}
@@ -3,6 +3,7 @@ import {
   Logger,
   NotFoundException,
   ForbiddenException,
+  ConflictException,
   PaymentRequiredException,
 } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
@@ -11,6 +12,22 @@ import { v4 as uuidv4 } from 'uuid';
 import { COMPLIANCE_QUEUE, ComplianceJobPayload } from '../queue/queue.module';
 import { WorkspacesService } from '../workspaces/workspaces.service';
 import { SupabaseService } from '../common/supabase.service';
+import { Observable, defer, merge, filter } from 'rxjs';
+import { JobStatus } from './compliance.worker';
+import { JobEventsService, JobProgressEvent } from './job-events.service';
+
+const CANCELLABLE_STATUSES: JobStatus[] = ['queued', 'processing'];
+const RETRYABLE_STATUSES: JobStatus[] = ['failed', 'cancelled'];
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Shown when a client connects before the worker has published anything
+const STATUS_MESSAGES: Record<JobStatus, string> = {
+  queued: 'Waiting in queue...',
+  processing: 'Processing...',
+  completed: 'Complete!',
+  failed: 'Compliance pipeline failed.',
+  cancelled: 'Job cancelled.',
+};
 
 export interface SubmitJobInput {
   workspaceId: string;
@@ -29,6 +46,7 @@ export class ComplianceService {
     @InjectQueue(COMPLIANCE_QUEUE) private readonly queue: Queue,
     private readonly workspaces: WorkspacesService,
     private readonly supabase: SupabaseService,
+    private readonly jobEvents: JobEventsService,
   ) {}
 
   /**
@@ -49,6 +67,16 @@ export class ComplianceService {
 
     // 2. Create job record in DB
     const jobId = uuidv4();
+    const payload: ComplianceJobPayload = {
+      jobId,
+      workspaceId: input.workspaceId,
+      userId: input.userId,
+      projectIdea: input.projectIdea,
+      jurisdictions: input.jurisdictions,
+      frameworks: input.frameworks,
+      existingSpec: input.existingSpec,
+    };
+
     const { error } = await this.supabase.db.from('compliance_jobs').insert({
       id: jobId,
       workspace_id: input.workspaceId,
@@ -56,6 +84,7 @@ export class ComplianceService {
       project_idea: input.projectIdea,
       jurisdictions: input.jurisdictions,
       frameworks: input.frameworks,
+      payload, // Kept so the job can be re-run after Bull has dropped it
       status: 'queued',
     });
 
@@ -67,16 +96,6 @@ export class ComplianceService {
     await this.workspaces.incrementReportCount(input.workspaceId);
 
     // 4. Enqueue the job
-    const payload: ComplianceJobPayload = {
-      jobId,
-      workspaceId: input.workspaceId,
-      userId: input.userId,
-      projectIdea: input.projectIdea,
-      jurisdictions: input.jurisdictions,
-      frameworks: input.frameworks,
-      existingSpec: input.existingSpec,
-    };
-
     const bullJob = await this.queue.add(payload, {
       jobId, // Use our UUID as the BullMQ job ID for correlation
     });
@@ -90,6 +109,145 @@ export class ComplianceService {
     return { jobId, queuePosition: queueCount };
   }
 
+  /**
+   * Cancel a queued or running job.
+   * Queued jobs are removed from Bull; a running job is marked cancelled
+   * and the worker stops at its next checkpoint. The report count
+   * charged by submitJob is refunded.
+   */
+  async cancelJob(jobId: string, workspaceId: string): Promise<{ jobId: string; status: JobStatus }> {
+    const job = await this.getJobRecord(jobId, workspaceId);
+
+    if (!CANCELLABLE_STATUSES.includes(job.status)) {
+      throw new ConflictException(`Job ${jobId} is ${job.status} and can no longer be cancelled.`);
+    }
+
+    // Conditional update — only one caller (or the worker finishing) can win the transition
+    const { data: updated, error } = await this.supabase.db
+      .from('compliance_jobs')
+      .update({
+        status: 'cancelled',
+        updated_at: new Date().toISOString(),
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('workspace_id', workspaceId)
+      .in('status', CANCELLABLE_STATUSES)
+      .select('id');
+
+    if (error) throw new Error(`Failed to cancel job: ${error.message}`);
+    if (!updated || updated.length === 0) {
+      throw new ConflictException(`Job ${jobId} finished before it could be cancelled.`);
+    }
+
+    const bullJob = await this.queue.getJob(jobId);
+    if (bullJob) {
+      const state = await bullJob.getState();
+      if (state === 'active') {
+        // Can't remove a locked job — the worker sees the cancelled status and stops
+        await bullJob.discard();
+      } else if (state !== 'completed' && state !== 'failed') {
+        await bullJob.remove();
+      }
+    }
+
+    await this.workspaces.decrementReportCount(workspaceId);
+
+    await this.jobEvents.publish({
+      jobId,
+      status: 'cancelled',
+      progress: bullJob ? Number(bullJob.progress()) || 0 : 0,
+      message: STATUS_MESSAGES.cancelled,
+      completedAt: new Date().toISOString(),
+    });
+
+    this.logger.log(`[Job ${jobId}] Cancelled (was ${job.status}). Report count refunded.`);
+
+    return { jobId, status: 'cancelled' };
+  }
+
+  /**
+   * Re-run a failed or cancelled job with its original payload.
+   * A cancelled job was refunded, so re-running it counts against the plan again.
+   */
+  async retryJob(jobId: string, workspaceId: string): Promise<{ jobId: string; queuePosition: number }> {
+    const job = await this.getJobRecord(jobId, workspaceId);
+
+    if (!RETRYABLE_STATUSES.includes(job.status)) {
+      throw new ConflictException(`Job ${jobId} is ${job.status} — only failed or cancelled jobs can be retried.`);
+    }
+
+    if (job.status === 'cancelled') {
+      const { allowed, used, limit } = await this.workspaces.checkReportLimit(workspaceId);
+      if (!allowed) {
+        throw new PaymentRequiredException(
+          `Monthly report limit reached (${used}/${limit}). Upgrade your plan to continue.`,
+        );
+      }
+    }
+
+    const payload: ComplianceJobPayload = job.payload ?? {
+      jobId,
+      workspaceId,
+      userId: job.user_id,
+      projectIdea: job.project_idea,
+      jurisdictions: job.jurisdictions,
+      frameworks: job.frameworks,
+    };
+
+    const existing = await this.queue.getJob(jobId);
+    const existingState = existing ? await existing.getState() : null;
+
+    if (existingState === 'active') {
+      throw new ConflictException(`Job ${jobId} is still running.`);
+    }
+
+    const { data: updated, error } = await this.supabase.db
+      .from('compliance_jobs')
+      .update({
+        status: 'queued',
+        error_message: null,
+        completed_at: null,
+        retry_count: (job.retry_count ?? 0) + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('workspace_id', workspaceId)
+      .eq('status', job.status)
+      .select('id');
+
+    if (error) throw new Error(`Failed to requeue job: ${error.message}`);
+    if (!updated || updated.length === 0) {
+      throw new ConflictException(`Job ${jobId} changed state while retrying. Try again.`);
+    }
+
+    if (job.status === 'cancelled') {
+      await this.workspaces.incrementReportCount(workspaceId);
+    }
+
+    if (existingState === 'delayed') {
+      // Bull is already waiting to retry it after a failed attempt — run it now
+      await existing!.promote();
+    } else if (existingState !== 'waiting') {
+      // Bull keeps job IDs unique — drop the finished job before re-adding it
+      if (existing) await existing.remove();
+      await this.queue.add(payload, { jobId });
+    }
+
+    const queueCount = await this.queue.getWaitingCount();
+
+    await this.jobEvents.publish({
+      jobId,
+      status: 'queued',
+      progress: 0,
+      message: STATUS_MESSAGES.queued,
+    });
+
+    this.logger.log(`[Job ${jobId}] Re-enqueued (was ${job.status}). Queue depth: ${queueCount}`);
+
+    return { jobId, queuePosition: queueCount };
+  }
+
   /**
    * Get the current status of a job.
    */
@@ -99,6 +257,7 @@ export class ComplianceService {
     progress: number;
     errorMessage?: string;
     completedAt?: string;
+    updatedAt: string;
   }> {
     // Verify the job belongs to this workspace (tenant isolation)
     const { data, error } = await this.supabase.db
@@ -122,9 +281,79 @@ export class ComplianceService {
       progress: typeof progress === 'number' ? progress : 0,
       errorMessage: data.error_message,
       completedAt: data.completed_at,
+      updatedAt: data.updated_at ?? data.created_at,
     };
   }
 
+  /**
+   * Live progress for a job: the current state first, then every
+   * event the worker publishes, until the job reaches a terminal status.
+   */
+  streamJobProgress(jobId: string, workspaceId: string): Observable<JobProgressEvent> {
+    // Subscribe to the live channel before reading the snapshot so nothing
+    // published in between is missed; stale events are dropped below
+    const snapshot$ = defer(async (): Promise<JobProgressEvent> => {
+      const status = await this.getJobStatus(jobId, workspaceId); // Tenant isolation
+      const last = await this.jobEvents.getLastEvent(jobId);
+
+      if (last && last.status === status.status) return last;
+
+      const jobStatus = status.status as JobStatus;
+      return {
+        jobId,
+        status: jobStatus,
+        progress: jobStatus === 'completed' ? 100 : status.progress,
+        message: STATUS_MESSAGES[jobStatus] ?? jobStatus,
+        errorMessage: status.errorMessage,
+        completedAt: status.completedAt,
+        // When the row last changed, not now — a live event published
+        // after the read must still sort after the snapshot
+        emittedAt: status.updatedAt,
+      };
+    });
+
+    return new Observable<JobProgressEvent>(subscriber => {
+      let lastEmittedAt = '';
+      let done = false;
+
+      const subscription = merge(this.jobEvents.stream(jobId), snapshot$)
+        .pipe(
+          filter(event => {
+            if (done || event.emittedAt < lastEmittedAt) return false;
+            lastEmittedAt = event.emittedAt;
+            return true;
+          }),
+        )
+        .subscribe({
+          next: event => {
+            subscriber.next(event);
+            if (TERMINAL_STATUSES.includes(event.status)) {
+              done = true;
+              subscriber.complete();
+            }
+          },
+          error: err => subscriber.error(err),
+        });
+
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  private async getJobRecord(jobId: string, workspaceId: string): Promise<any> {
+    const { data, error } = await this.supabase.db
+      .from('compliance_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('workspace_id', workspaceId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException(`Job ${jobId} not found.`);
+    }
+
+    return data;
+  }
+
   /**
    * Retrieve the completed compliance report for a job.
    */
@@ -3,6 +3,9 @@ import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import { COMPLIANCE_QUEUE } from './queue.module';
 import { SupabaseService } from '../common/supabase.service';
+import { LLMOutputValidationError } from '../ai-engine/structuredOutput';
+import { JobEventsService } from './job-events.service';
+import { PipelineStage, PipelineStageEvent } from '../types';
 
 // Dynamic imports from the compliance engine (separate package)
 // In the monorepo, these would be resolved via package.json workspace paths
@@ -23,13 +26,34 @@ export interface ComplianceJobPayload {
   existingSpec?: string;
 }
 
-export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Thrown at a checkpoint when the job was cancelled via the API.
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled.`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Progress (0–100) reported when each pipeline stage starts / finishes
+const STAGE_PROGRESS: Record<PipelineStage, { started: number; completed: number }> = {
+  retrieval: { started: 15, completed: 25 },
+  draft: { started: 30, completed: 50 },
+  scan: { started: 55, completed: 70 },
+  arbitration: { started: 72, completed: 85 },
+};
 
 @Processor(COMPLIANCE_QUEUE)
 export class ComplianceWorker {
   private readonly logger = new Logger(ComplianceWorker.name);
 
-  constructor(private readonly supabase: SupabaseService) {}
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly jobEvents: JobEventsService,
+  ) {}
 
   @Process({ concurrency: 2 }) // Run max 2 pipelines in parallel per worker
   async handleComplianceJob(job: Job<ComplianceJobPayload>): Promise<void> {
@@ -38,23 +62,32 @@ export class ComplianceWorker {
 
     this.logger.log(`[Job ${jobId}] Starting compliance pipeline...`);
 
-    // Update job status to 'processing'
-    await this.updateJobStatus(jobId, 'processing');
-    await job.progress(10);
+    // Update job status to 'processing' — unless it was cancelled while queued
+    const started = await this.markProcessing(jobId);
+    if (!started) {
+      this.logger.log(`[Job ${jobId}] Cancelled before it started. Skipping.`);
+      return;
+    }
+    await this.reportProgress(job, 'processing', 10, 'Job started.');
 
     try {
       const { runCompliancePipeline, saveReport } = await getOrchestrator();
 
-      await job.progress(20);
-
-      const report = await runCompliancePipeline({
-        projectIdea,
-        jurisdictions,
-        frameworks,
-        existingSpec,
-      });
-
-      await job.progress(80);
+      const report = await runCompliancePipeline(
+        {
+          projectIdea,
+          jurisdictions,
+          frameworks,
+          existingSpec,
+        },
+        event => this.onStage(job, event),
+        // Checked between stages — a cancelled job makes no further model calls
+        () => this.assertNotCancelled(jobId),
+      );
+
+      // Cancelled during the last stage — drop the result
+      await this.assertNotCancelled(jobId);
+      await this.reportProgress(job, 'processing', 90, 'Saving compliance report...');
 
       // Persist the report
       await saveReport(report);
@@ -70,14 +103,56 @@ export class ComplianceWorker {
         report_json: report,
       });
 
-      await job.progress(100);
       await this.updateJobStatus(jobId, 'completed');
+      await this.reportProgress(job, 'completed', 100, 'Complete!', {
+        finalStatus: report.finalStatus,
+        score: report.scanResult.score,
+        requiresHumanReview: report.requiresHumanReview,
+      });
 
       this.logger.log(`[Job ${jobId}] Completed. Status: ${report.finalStatus} | Score: ${report.scanResult.score.toFixed(2)}`);
     } catch (err: any) {
-      this.logger.error(`[Job ${jobId}] Failed: ${err.message}`);
-      await this.updateJobStatus(jobId, 'failed', err.message);
-      throw err; // Re-throw so BullMQ retries
+      if (err instanceof JobCancelledError) {
+        this.logger.log(`[Job ${jobId}] Stopped — cancelled by user.`);
+        await job.discard();
+        return;
+      }
+
+      // The repair loop already re-prompted the model — a whole-pipeline
+      // retry would just pay for the same invalid output again
+      const discarded = err instanceof LLMOutputValidationError;
+      if (discarded) {
+        await job.discard();
+      }
+
+      const attempt = job.attemptsMade + 1;
+      const maxAttempts = job.opts.attempts ?? 1;
+
+      if (discarded || attempt >= maxAttempts) {
+        this.logger.error(`[Job ${jobId}] Failed: ${err.message}`);
+        await this.updateJobStatus(jobId, 'failed', err.message);
+        await this.jobEvents.publish({
+          jobId,
+          status: 'failed',
+          progress: Number(job.progress()) || 0,
+          message: 'Compliance pipeline failed.',
+          errorMessage: err.message,
+          completedAt: new Date().toISOString(),
+        });
+      } else {
+        // Not terminal yet — the job stays cancellable and the stream stays open
+        this.logger.warn(`[Job ${jobId}] Attempt ${attempt}/${maxAttempts} failed: ${err.message}. Retrying.`);
+        await this.updateJobStatus(jobId, 'queued', err.message);
+        await this.jobEvents.publish({
+          jobId,
+          status: 'queued',
+          progress: 0,
+          message: `Attempt ${attempt} of ${maxAttempts} failed — retrying...`,
+          errorMessage: err.message,
+        });
+      }
+
+      throw err; // Re-throw so BullMQ retries (unless discarded)
     }
   }
 
@@ -93,6 +168,53 @@ export class ComplianceWorker {
     this.logger.log(`[Job ${job.data.jobId}] Bull job completed.`);
   }
 
+  private async onStage(job: Job<ComplianceJobPayload>, event: PipelineStageEvent): Promise<void> {
+    const range = STAGE_PROGRESS[event.stage];
+    const progress = event.state === 'started' ? range.started : range.completed;
+    await this.reportProgress(job, 'processing', progress, event.message, event.detail, event.stage);
+  }
+
+  private async reportProgress(
+    job: Job<ComplianceJobPayload>,
+    status: JobStatus,
+    progress: number,
+    message: string,
+    detail?: Record<string, unknown>,
+    stage?: PipelineStage,
+  ): Promise<void> {
+    await job.progress(progress);
+    await this.jobEvents.publish({
+      jobId: job.data.jobId,
+      status,
+      progress,
+      stage,
+      message,
+      detail,
+      ...(status === 'completed' ? { completedAt: new Date().toISOString() } : {}),
+    });
+  }
+
+  private async markProcessing(jobId: string): Promise<boolean> {
+    const { data } = await this.supabase.db
+      .from('compliance_jobs')
+      .update({ status: 'processing', error_message: null, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .in('status', ['queued', 'processing']) // 'queued' also covers Bull retrying an earlier attempt
+      .select('id');
+
+    return !!data && data.length > 0;
+  }
+
+  private async assertNotCancelled(jobId: string): Promise<void> {
+    const { data } = await this.supabase.db
+      .from('compliance_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .single();
+
+    if (data?.status === 'cancelled') throw new JobCancelledError(jobId);
+  }
+
   private async updateJobStatus(
     jobId: string,
     status: JobStatus,
@@ -108,6 +230,7 @@ export class ComplianceWorker {
           ? { completed_at: new Date().toISOString() }
           : {}),
       })
-      .eq('id', jobId);
+      .eq('id', jobId)
+      .neq('status', 'cancelled'); // Never overwrite a user cancellation
   }
 }
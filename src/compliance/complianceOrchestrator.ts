@@ -8,9 +8,12 @@
 // This separates the "creative" generation (Gemini) from the
 // "critical" analysis (OpenAI) and the "authoritative" output
 // (Claude).
+//
+// The model behind each role (drafter, scanner, arbiter) is
+// configured in ai-engine/llmProvider — the vendors above are
+// the defaults.
 // ============================================================
 
-import Anthropic from '@anthropic-ai/sdk';
 import { v4 as uuidv4 } from 'uuid';
 import { retrieveRegulations } from '../rag/vectorStore';
 import { generateDraft } from './draftEngine';
@@ -21,21 +24,12 @@ import {
   DraftSpecification,
   ScanResult,
   RetrievedRegulation,
+  PipelineStageListener,
 } from '../types';
-
-const CLAUDE_MODEL = 'claude-sonnet-4-6';
-
-let _client: Anthropic | null = null;
-
-function getClient(): Anthropic {
-  if (!_client) {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY is not set in environment variables.');
-    }
-    _client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  }
-  return _client;
-}
+import { generateValidated, LLMOutputValidationError } from '../ai-engine/structuredOutput';
+import { arbitratedDraftSchema } from '../ai-engine/outputSchemas';
+import { getLLM } from '../ai-engine/llmProvider';
+import { verifyCitations, citationFindings } from '../scanner/citationVerifier';
 
 // ============================================================
 // CLAUDE: FINAL ARBITRATION PROMPT
@@ -105,13 +99,27 @@ Return the amended specification as a JSON object with the EXACT same structure
  * 2. Generate draft spec via Gemini
  * 3. Scan draft via OpenAI
  * 4. Arbitrate and finalize via Claude
- * 5. Return a complete ComplianceReport
+ * 5. Verify every citation against the retrieved regulations
+ * 6. Return a complete ComplianceReport
+ *
+ * `onStage` is called as each step starts and finishes, with
+ * stage-specific detail (regulations retrieved, scan score, ...).
+ * `checkpoint` runs before each step and before the report is
+ * returned; it throws to stop the pipeline (e.g. a cancelled job)
+ * before any more model calls are paid for.
  */
 export async function runCompliancePipeline(
-  request: SpecificationRequest
+  request: SpecificationRequest,
+  onStage?: PipelineStageListener,
+  checkpoint?: () => Promise<void>,
 ): Promise<ComplianceReport> {
   const requestId = uuidv4();
-  const client = getClient();
+  const emit: PipelineStageListener = async (event) => {
+    if (onStage) await onStage(event);
+  };
+  const check = async () => {
+    if (checkpoint) await checkpoint();
+  };
 
   console.log(`\n${'='.repeat(60)}`);
   console.log(`[Orchestrator] Starting pipeline | ID: ${requestId}`);
@@ -121,7 +129,9 @@ export async function runCompliancePipeline(
   console.log(`${'='.repeat(60)}\n`);
 
   // ── Step 1: RAG Retrieval ────────────────────────────────
+  await check();
   console.log('[Orchestrator] Step 1/4: RAG retrieval...');
+  await emit({ stage: 'retrieval', state: 'started', message: 'Retrieving relevant regulations...' });
   const regulations = await retrieveRegulations(
     request.projectIdea,
     request.frameworks,
@@ -135,61 +145,159 @@ export async function runCompliancePipeline(
     );
   }
   console.log(`[Orchestrator] Retrieved ${regulations.length} regulations.\n`);
+  await emit({
+    stage: 'retrieval',
+    state: 'completed',
+    message: `Retrieved ${regulations.length} relevant regulations.`,
+    detail: {
+      regulationsRetrieved: regulations.length,
+      frameworks: [...new Set(regulations.map(r => r.framework))],
+    },
+  });
 
   // ── Step 2: Draft Generation (Gemini) ───────────────────
-  console.log('[Orchestrator] Step 2/4: Generating draft with Gemini...');
+  await check();
+  console.log(`[Orchestrator] Step 2/4: Generating draft with ${getLLM('drafter').name}...`);
+  await emit({ stage: 'draft', state: 'started', message: 'Generating technical specification...' });
   const draft: DraftSpecification = await generateDraft(request, regulations);
   console.log('[Orchestrator] Draft generated.\n');
+  await emit({
+    stage: 'draft',
+    state: 'completed',
+    message: `Draft generated — ${draft.regulationsApplied.length} regulations applied.`,
+    detail: { regulationsApplied: draft.regulationsApplied.length },
+  });
 
   // ── Step 3: Scan (OpenAI) ───────────────────────────────
-  console.log('[Orchestrator] Step 3/4: Scanning draft with OpenAI...');
+  await check();
+  console.log(`[Orchestrator] Step 3/4: Scanning draft with ${getLLM('scanner').name}...`);
+  await emit({ stage: 'scan', state: 'started', message: 'Running Gold Standard compliance scan...' });
   const scanResult: ScanResult = await scanDraft(draft, regulations);
-  console.log(`[Orchestrator] Scan complete. Score: ${scanResult.score.toFixed(2)}\n`);
+  const modelFindings = [...scanResult.findings];
+
+  // Citations the drafter invented become high-risk findings for the arbiter to fix
+  const draftCitations = verifyCitations(draft, regulations);
+  scanResult.findings.push(...citationFindings(draftCitations));
+
+  console.log(`[Orchestrator] Scan complete. Score: ${scanResult.score.toFixed(2)}`);
+  console.log(
+    `[Orchestrator] Citations: ${draftCitations.verified}/${draftCitations.checked} verified, ` +
+    `${draftCitations.hallucinated.length} not in regulatory context\n`,
+  );
+  await emit({
+    stage: 'scan',
+    state: 'completed',
+    message: `Scan score ${scanResult.score.toFixed(2)} (threshold ${scanResult.threshold.toFixed(2)}) — ${scanResult.findings.length} finding(s).`,
+    detail: {
+      score: scanResult.score,
+      threshold: scanResult.threshold,
+      passed: scanResult.passed,
+      findings: scanResult.findings.length,
+      highRiskFindings: scanResult.findings.filter(f => f.riskLevel === 'high').length,
+      hallucinatedCitations: draftCitations.hallucinated.length,
+    },
+  });
 
   // ── Step 4: Final Arbitration (Claude) ──────────────────
-  console.log('[Orchestrator] Step 4/4: Claude arbitration...');
+  await check();
+  console.log(`[Orchestrator] Step 4/4: Arbitration with ${getLLM('arbiter').name}...`);
 
   let finalDraft = draft;
   let finalStatus = scanResult.status;
+  let arbitrationNotes = 0;
 
   // Only invoke Claude arbitration if there are findings to address
   if (scanResult.findings.length > 0) {
-    const arbitrationPrompt = buildArbitrationPrompt(request, draft, scanResult, regulations);
-
-    const response = await client.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: 8192,
-      messages: [{ role: 'user', content: arbitrationPrompt }],
+    await emit({
+      stage: 'arbitration',
+      state: 'started',
+      message: `Arbitrating ${scanResult.findings.length} finding(s)...`,
+      detail: { findings: scanResult.findings.length },
     });
 
-    const rawText = response.content[0].type === 'text' ? response.content[0].text : '';
+    const arbitrationPrompt = buildArbitrationPrompt(request, draft, scanResult, regulations);
 
     try {
-      // Strip markdown fences if present
-      const cleaned = rawText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
-      finalDraft = JSON.parse(cleaned);
+      const arbitrated = await generateValidated({
+        label: 'Orchestrator',
+        prompt: arbitrationPrompt,
+        schema: arbitratedDraftSchema,
+        complete: p => getLLM('arbiter').complete({ prompt: p, maxTokens: 8192 }),
+      });
+
+      finalDraft = {
+        ...arbitrated,
+        version: arbitrated.version || draft.version,
+        generatedAt: arbitrated.generatedAt || draft.generatedAt,
+      };
+
+      arbitrationNotes = arbitrated.arbitrationNotes.length;
 
       // If Claude addressed high-risk findings, upgrade the status
       const highRiskFindings = scanResult.findings.filter(f => f.riskLevel === 'high');
-      const allHighRiskAddressed = (finalDraft as any).arbitrationNotes?.filter(
-        (n: any) => n.action === 'amended'
+      const allHighRiskAddressed = arbitrated.arbitrationNotes.filter(
+        n => n.action === 'amended'
       ).length >= highRiskFindings.length;
 
       if (allHighRiskAddressed && scanResult.score >= 0.7) {
         finalStatus = 'compliant';
       }
     } catch (err) {
-      console.warn('[Orchestrator] Claude arbitration response could not be parsed. Using original draft.');
-      console.warn('[Orchestrator] Raw response:', rawText.slice(0, 300));
+      if (!(err instanceof LLMOutputValidationError)) throw err;
+
+      console.warn('[Orchestrator] Claude arbitration response failed validation. Using original draft.');
+      console.warn('[Orchestrator] Raw response:', err.rawOutput.slice(0, 300));
       // Fall back to original draft — do not fail the pipeline
       finalDraft = draft;
     }
   }
 
   console.log('[Orchestrator] Arbitration complete.\n');
+  await emit(scanResult.findings.length > 0
+    ? {
+        stage: 'arbitration',
+        state: 'completed',
+        message: `Arbitration complete — final status: ${finalStatus}.`,
+        detail: {
+          finalStatus,
+          amended: finalDraft !== draft,
+          arbitrationNotes,
+        },
+      }
+    : {
+        stage: 'arbitration',
+        state: 'skipped',
+        message: 'No findings to arbitrate.',
+        detail: { finalStatus },
+      });
+
+  // ── Verify citations in the final draft ─────────────────
+  // Findings are rebuilt from the final document: citations the
+  // arbiter fixed drop out, ones it introduced are added
+  const citationVerification = finalDraft === draft
+    ? draftCitations
+    : verifyCitations(finalDraft, regulations);
+
+  const finalScanResult: ScanResult = {
+    ...scanResult,
+    findings: [...modelFindings, ...citationFindings(citationVerification)],
+  };
+
+  if (citationVerification.hallucinated.length > 0) {
+    console.warn(
+      `[Orchestrator] Final draft still cites ${citationVerification.hallucinated.length} regulation(s) ` +
+      'not in the regulatory context.',
+    );
+
+    // Whatever the scan or the arbiter's notes said, a spec citing
+    // articles that don't exist is not compliant
+    if (finalStatus === 'compliant') finalStatus = 'partial';
+  }
 
   // ── Assemble Final Report ───────────────────────────────
-  const humanReview = requiresHumanReview(scanResult);
+  await check();
+  // Auditors reject specs citing articles that don't exist — always route those to a human
+  const humanReview = requiresHumanReview(finalScanResult) || citationVerification.hallucinated.length > 0;
 
   const report: ComplianceReport = {
     requestId,
@@ -198,7 +306,8 @@ export async function runCompliancePipeline(
     frameworks: request.frameworks,
     retrievedRegulations: regulations,
     draft: finalDraft,
-    scanResult,
+    scanResult: finalScanResult,
+    citationVerification,
     finalStatus,
     requiresHumanReview: humanReview,
     completedAt: new Date().toISOString(),
@@ -207,7 +316,7 @@ export async function runCompliancePipeline(
   console.log(`${'='.repeat(60)}`);
   console.log(`[Orchestrator] Pipeline complete.`);
   console.log(`[Orchestrator] Final Status: ${finalStatus}`);
-  console.log(`[Orchestrator] Scan Score: ${scanResult.score.toFixed(2)}`);
+  console.log(`[Orchestrator] Scan Score: ${finalScanResult.score.toFixed(2)}`);
   console.log(`[Orchestrator] Human Review Required: ${humanReview}`);
   console.log(`${'='.repeat(60)}\n`);
 
@@ -0,0 +1,164 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Observable, Subject, finalize } from 'rxjs';
+import { PipelineStage } from '../types';
+import { JobStatus } from './compliance.worker';
+
+/**
+ * One progress update for a compliance job, as pushed to SSE clients.
+ */
+export interface JobProgressEvent {
+  jobId: string;
+  status: JobStatus;
+  progress: number;                   // 0–100
+  stage?: PipelineStage;
+  message: string;
+  detail?: Record<string, unknown>;   // Stage-specific, e.g. { regulationsRetrieved: 12 }
+  errorMessage?: string;
+  completedAt?: string;
+  emittedAt: string;
+}
+
+const CHANNEL_PREFIX = 'compliance-job:';
+const LAST_EVENT_TTL_SECONDS = 60 * 60;
+
+/**
+ * Pub/sub channel for job progress.
+ * The worker publishes; every SSE connection subscribes to its job's channel.
+ *
+ * JOB_EVENTS_TRANSPORT=redis (default) fans out across API instances.
+ * JOB_EVENTS_TRANSPORT=memory keeps everything in-process (single node / dev).
+ */
+@Injectable()
+export class JobEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(JobEventsService.name);
+  private readonly useRedis: boolean;
+  private publisher: Redis | null = null;
+  private subscriber: Redis | null = null;
+
+  // Local fan-out: one subject per job, shared by every SSE connection for it
+  private readonly subjects = new Map<string, { subject: Subject<JobProgressEvent>; refs: number }>();
+  private readonly lastEvents = new Map<string, JobProgressEvent>(); // memory transport only
+
+  constructor(private readonly config: ConfigService) {
+    this.useRedis = this.config.get<string>('JOB_EVENTS_TRANSPORT', 'redis') === 'redis';
+  }
+
+  /**
+   * Publish a progress event for a job.
+   */
+  async publish(event: Omit<JobProgressEvent, 'emittedAt'>): Promise<void> {
+    const full: JobProgressEvent = { ...event, emittedAt: new Date().toISOString() };
+
+    if (!this.useRedis) {
+      this.lastEvents.set(full.jobId, full);
+      this.subjects.get(full.jobId)?.subject.next(full);
+      return;
+    }
+
+    const redis = this.getPublisher();
+    const channel = `${CHANNEL_PREFIX}${full.jobId}`;
+    const payload = JSON.stringify(full);
+
+    await redis
+      .multi()
+      .set(`${channel}:last`, payload, 'EX', LAST_EVENT_TTL_SECONDS)
+      .publish(channel, payload)
+      .exec();
+  }
+
+  /**
+   * The most recent event for a job — lets a late SSE subscriber
+   * start from the current stage instead of a bare percentage.
+   */
+  async getLastEvent(jobId: string): Promise<JobProgressEvent | null> {
+    if (!this.useRedis) return this.lastEvents.get(jobId) ?? null;
+
+    const raw = await this.getPublisher().get(`${CHANNEL_PREFIX}${jobId}:last`);
+    return raw ? (JSON.parse(raw) as JobProgressEvent) : null;
+  }
+
+  /**
+   * Live events for a job. Unsubscribes from the channel when the
+   * last subscriber for that job goes away.
+   */
+  stream(jobId: string): Observable<JobProgressEvent> {
+    return new Observable<JobProgressEvent>(subscriber => {
+      const entry = this.acquire(jobId);
+      const subscription = entry.subject.subscribe(subscriber);
+      return () => subscription.unsubscribe();
+    }).pipe(finalize(() => this.release(jobId)));
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    for (const { subject } of this.subjects.values()) subject.complete();
+    this.subjects.clear();
+    await this.subscriber?.quit();
+    await this.publisher?.quit();
+  }
+
+  // ── Channel bookkeeping ───────────────────────────────────
+
+  private acquire(jobId: string) {
+    let entry = this.subjects.get(jobId);
+    if (!entry) {
+      entry = { subject: new Subject<JobProgressEvent>(), refs: 0 };
+      this.subjects.set(jobId, entry);
+
+      if (this.useRedis) {
+        this.getSubscriber()
+          .subscribe(`${CHANNEL_PREFIX}${jobId}`)
+          .catch(err => this.logger.error(`Subscribe failed for job ${jobId}: ${err.message}`));
+      }
+    }
+    entry.refs++;
+    return entry;
+  }
+
+  private release(jobId: string): void {
+    const entry = this.subjects.get(jobId);
+    if (!entry) return;
+
+    entry.refs--;
+    if (entry.refs > 0) return;
+
+    this.subjects.delete(jobId);
+    entry.subject.complete();
+
+    if (this.useRedis) {
+      this.getSubscriber()
+        .unsubscribe(`${CHANNEL_PREFIX}${jobId}`)
+        .catch(err => this.logger.warn(`Unsubscribe failed for job ${jobId}: ${err.message}`));
+    }
+  }
+
+  private getPublisher(): Redis {
+    if (!this.publisher) this.publisher = this.createRedis();
+    return this.publisher;
+  }
+
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      // A subscribed connection can't issue other commands — it gets its own
+      this.subscriber = this.createRedis();
+      this.subscriber.on('message', (channel: string, message: string) => {
+        const jobId = channel.slice(CHANNEL_PREFIX.length);
+        try {
+          this.subjects.get(jobId)?.subject.next(JSON.parse(message));
+        } catch (err: any) {
+          this.logger.warn(`Dropped malformed event on ${channel}: ${err.message}`);
+        }
+      });
+    }
+    return this.subscriber;
+  }
+
+  private createRedis(): Redis {
+    return new Redis({
+      host: this.config.get<string>('REDIS_HOST', 'localhost'),
+      port: this.config.get<number>('REDIS_PORT', 6379),
+      password: this.config.get<string>('REDIS_PASSWORD') || undefined,
+    });
+  }
+}
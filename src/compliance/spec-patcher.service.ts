@@ -7,19 +7,49 @@
 //   4. Save diffs to audit table
 //   5. Publish spec.updated Kafka event
 //   6. Trigger GitHub PR via spec.pr_requested event
+//
+// Steps 3–6 commit in one transaction (RPC commit_spec_patch):
+// the events go to the outbox and the outbox relay publishes
+// them, so a crash can't leave a version without its diffs or
+// its PR request.
+//
+// Workspaces with patch_approval_policy = 'require_approval'
+// get the new version as a draft instead, with no events —
+// SpecsService.approveSpec publishes them on approval. So does
+// any patch that cites a regulation other than its trigger and
+// what the spec already cited: auditors reject invented
+// citations, so a human checks them before the version goes live.
+//
+// previewSpecPatch runs steps 1–3 only, as a dry run.
 // ============================================================
 
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
-import { detectAffectedModules, generateModuleDiffs, applyDiffsToSpec } from './diffEngine';
-import { publishEvent, TOPICS } from '../events/kafka.client';
+import {
+  detectAffectedModules,
+  generateModuleDiffs,
+  applyDiffsToSpec,
+  ApplyDiffsResult,
+} from './diffEngine';
+import { TOPICS } from '../infrastructure/eventBus';
+import { toOutboxRow } from '../infrastructure/outboxRelay';
+import { verifyCitations, listCitations } from '../scanner/citationVerifier';
+import {
+  isHeadMovedError,
+  nextVersionLabel,
+  resolveVersioningPolicy,
+  VersioningPolicy,
+} from '../specs/versioning';
 import {
   SpecVersion,
   ClauseDiff,
   ModuleKey,
   SpecPatchResult,
   SpecUpdatedEvent,
+  SpecPrRequestedEvent,
   RegulationNewEvent,
+  ModuleImpactScores,
+  HallucinatedCitation,
 } from '../types';
 
 function getSupabase() {
@@ -41,65 +71,244 @@ export interface PatchSpecInput {
     jurisdiction: string;
     severity: string;
   };
+  // Per-module similarity from the impact analyzer, if it ran —
+  // lets clear-cut modules skip the model in Step 2
+  moduleScores?: ModuleImpactScores;
+  semanticThreshold?: number;   // The threshold the spec passed; caps the module skip threshold
 }
 
+// Times a patch is regenerated against a moved head before it
+// is left for a human to resolve
+const MAX_REBASE_ATTEMPTS = 2;
+const MAX_CHAIN_DEPTH = 500;
+
+const HEAD_MOVED = Symbol('head_moved');
+
 /**
  * Main patch entry point — called by BullMQ worker per spec.
+ *
+ * Patches always target the head of the version chain — the
+ * active version, or the newest draft pending approval on top of it.
+ * If the head moved since the job was enqueued (or moves while
+ * diffs are generated) the patch is regenerated against the new
+ * head; after MAX_REBASE_ATTEMPTS it is logged as a conflict
+ * instead of forking the history.
  */
 export async function patchSpec(input: PatchSpecInput): Promise<SpecPatchResult> {
   const supabase = getSupabase();
   const { specVersionId, workspaceId, regulation } = input;
+  const regulationTrigger = `${regulation.framework} ${regulation.article}`;
+
+  console.log(`[Patcher] Patching spec ${specVersionId} for ${regulationTrigger}`);
+
+  const settings = await getWorkspacePatchSettings(supabase, workspaceId);
+  let head: SpecVersion | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REBASE_ATTEMPTS; attempt++) {
+    // ── Step 1: Load the current head of the version chain ──
+    head = await resolveSpecHead(supabase, head?.id ?? specVersionId);
+
+    if (head.id !== specVersionId) {
+      console.log(`[Patcher] Spec ${specVersionId} has moved on — rebasing onto head ${head.id} (${head.versionLabel})`);
+    }
+
+    const result = await patchVersion(supabase, input, head, settings);
+    if (result !== HEAD_MOVED) {
+      return head.id !== specVersionId ? { ...result, rebasedFrom: specVersionId } : result;
+    }
+
+    console.warn(`[Patcher] Head ${head.id} moved during patch (attempt ${attempt + 1}/${MAX_REBASE_ATTEMPTS + 1})`);
+  }
+
+  // Kept losing the race — leave it for a human rather than fork
+  await supabase.from('regulation_impact_log').insert({
+    regulation_id: regulation.id,
+    regulation_ref: regulationTrigger,
+    workspace_id: workspaceId,
+    spec_version_id: head!.id,
+    new_spec_version_id: null,
+    affected_modules: [],
+    diff_count: 0,
+    patch_conflicts: [],
+    conflict_reason: 'head_moved',
+    status: 'conflict',
+  });
+
+  console.error(`[Patcher] Gave up patching spec ${specVersionId}: head kept moving. Logged for review.`);
 
-  console.log(`[Patcher] Patching spec ${specVersionId} for ${regulation.framework} ${regulation.article}`);
+  return {
+    specVersionId: head!.id,
+    newVersionId: head!.id,
+    newVersionNumber: head!.versionNumber,
+    diffs: [],
+    affectedModules: [],
+    regulationTrigger,
+    patchedAt: new Date().toISOString(),
+    ...(head!.id !== specVersionId ? { rebasedFrom: specVersionId } : {}),
+    headMoved: true,
+  };
+}
+
+/**
+ * Dry run of patchSpec: the diffs a regulation would produce
+ * against the head of a spec's chain, as patchSpec would report
+ * them. Makes the same model calls but writes, commits and
+ * publishes nothing.
+ */
+export async function previewSpecPatch(input: PatchSpecInput): Promise<SpecPatchResult> {
+  const supabase = getSupabase();
+  const { specVersionId, workspaceId, regulation, moduleScores } = input;
+
+  const settings = await getWorkspacePatchSettings(supabase, workspaceId);
+  const head = await resolveSpecHead(supabase, specVersionId);
+  const { affectedModules, applied, conflicts, hallucinatedCitations } =
+    await generatePatch(regulation, head, moduleScores, input.semanticThreshold);
+  const wouldPatch = applied.length > 0;
+  const needsReview = settings.approvalRequired || head.status === 'draft' || hallucinatedCitations.length > 0;
+
+  return {
+    specVersionId: head.id,
+    newVersionId: head.id,
+    newVersionNumber: wouldPatch ? head.versionNumber + 1 : head.versionNumber,
+    diffs: applied,
+    affectedModules,
+    regulationTrigger: `${regulation.framework} ${regulation.article}`,
+    patchedAt: new Date().toISOString(),
+    conflicts,
+    ...(head.id !== specVersionId ? { rebasedFrom: specVersionId } : {}),
+    ...(wouldPatch && needsReview ? { pendingApproval: true } : {}),
+    ...(hallucinatedCitations.length > 0 ? { hallucinatedCitations } : {}),
+    dryRun: true,
+  };
+}
 
-  // ── Step 1: Load the current spec version ─────────────────
+/**
+ * Follow the chain forward from a version to its head: past
+ * superseded versions to the active one, then through any drafts
+ * pending approval. Archived (rejected) versions are not part of
+ * the chain. Throws if the chain has already forked or dead-ends.
+ */
+async function resolveSpecHead(
+  supabase: ReturnType<typeof getSupabase>,
+  versionId: string,
+): Promise<SpecVersion> {
   const { data: specRow, error: fetchError } = await supabase
     .from('spec_versions')
     .select('*')
-    .eq('id', specVersionId)
+    .eq('id', versionId)
     .single();
 
   if (fetchError || !specRow) {
-    throw new Error(`[Patcher] Spec ${specVersionId} not found: ${fetchError?.message}`);
+    throw new Error(`[Patcher] Spec ${versionId} not found: ${fetchError?.message}`);
   }
 
-  const currentSpec = mapRowToSpec(specRow);
+  // Branches are what-if variants — regulation patches only move the main line
+  if (specRow.branch_id) {
+    throw new Error(`[Patcher] Spec ${versionId} is on branch ${specRow.branch_id} — only the main line is patched.`);
+  }
 
-  // ── Step 2: Detect which modules are affected ──────────────
-  const affectedModules = await detectAffectedModules(regulation, currentSpec);
+  let row = specRow;
+
+  for (let depth = 0; ; depth++) {
+    if (depth >= MAX_CHAIN_DEPTH) {
+      throw new Error(`[Patcher] No head within ${MAX_CHAIN_DEPTH} versions of ${versionId}`);
+    }
+
+    const { data: children, error } = await supabase
+      .from('spec_versions')
+      .select('*')
+      .eq('parent_id', row.id)
+      .is('branch_id', null)
+      .neq('status', 'archived');
+
+    if (error) {
+      throw new Error(`[Patcher] Failed to load successors of ${row.id}: ${error.message}`);
+    }
+    if (!children || children.length === 0) break;
+    if (children.length > 1) {
+      throw new Error(`[Patcher] Version chain forks at ${row.id} (${children.length} children) — resolve manually.`);
+    }
+
+    row = children[0];
+  }
 
-  if (affectedModules.length === 0) {
-    console.log(`[Patcher] No modules affected for spec ${specVersionId}. Skipping.`);
+  if (row.status !== 'active' && row.status !== 'draft') {
+    throw new Error(`[Patcher] Spec ${row.id} is ${row.status} and has no successor — nothing to patch.`);
+  }
+
+  return mapRowToSpec(row);
+}
+
+interface WorkspacePatchSettings {
+  approvalRequired: boolean;
+  versioningPolicy: VersioningPolicy;
+}
+
+async function getWorkspacePatchSettings(
+  supabase: ReturnType<typeof getSupabase>,
+  workspaceId: string,
+): Promise<WorkspacePatchSettings> {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('patch_approval_policy, versioning_policy')
+    .eq('id', workspaceId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`[Patcher] Workspace ${workspaceId} not found: ${error?.message}`);
+  }
+
+  return {
+    approvalRequired: data.patch_approval_policy === 'require_approval',
+    versioningPolicy: resolveVersioningPolicy(data.versioning_policy),
+  };
+}
+
+/**
+ * Generate, apply and commit one patch against `currentSpec`.
+ * Returns HEAD_MOVED if another version was committed on top of
+ * it first.
+ */
+async function patchVersion(
+  supabase: ReturnType<typeof getSupabase>,
+  input: PatchSpecInput,
+  currentSpec: SpecVersion,
+  settings: WorkspacePatchSettings,
+): Promise<SpecPatchResult | typeof HEAD_MOVED> {
+  const { workspaceId, regulation } = input;
+  const specVersionId = currentSpec.id;
+
+  // ── Steps 2–4: Detect modules, generate and apply diffs ────
+  const { affectedModules, diffs: allDiffs, modules: updatedModules, applied, conflicts, hallucinatedCitations } =
+    await generatePatch(regulation, currentSpec, input.moduleScores, input.semanticThreshold);
+
+  // No modules affected, or no clause changes required
+  if (allDiffs.length === 0) {
     return {
       specVersionId,
       newVersionId: specVersionId,
       newVersionNumber: currentSpec.versionNumber,
       diffs: [],
-      affectedModules: [],
+      affectedModules,
       regulationTrigger: `${regulation.framework} ${regulation.article}`,
       patchedAt: new Date().toISOString(),
     };
   }
 
-  console.log(`[Patcher] Affected modules: ${affectedModules.join(', ')}`);
-
-  // ── Step 3: Generate clause diffs per module ───────────────
-  const allDiffs: ClauseDiff[] = [];
-
-  for (const moduleKey of affectedModules) {
-    const moduleData = currentSpec.modules[moduleKey];
-    if (!moduleData) continue;
-
-    console.log(`[Patcher] Generating diffs for module: ${moduleKey}`);
-
-    const moduleDiffs = await generateModuleDiffs(regulation, moduleKey, moduleData);
-    allDiffs.push(...moduleDiffs);
-
-    console.log(`[Patcher] ${moduleDiffs.length} diffs found in ${moduleKey}`);
-  }
+  if (applied.length === 0) {
+    // Nothing applied cleanly — record the conflicts for review, don't mint a version
+    await supabase.from('regulation_impact_log').insert({
+      regulation_id: regulation.id,
+      regulation_ref: `${regulation.framework} ${regulation.article}`,
+      workspace_id: workspaceId,
+      spec_version_id: specVersionId,
+      new_spec_version_id: null,
+      affected_modules: affectedModules,
+      diff_count: 0,
+      patch_conflicts: conflicts,
+      status: 'conflict',
+    });
 
-  if (allDiffs.length === 0) {
-    console.log(`[Patcher] Regulation analyzed but no clause changes required. Spec already compliant.`);
     return {
       specVersionId,
       newVersionId: specVersionId,
@@ -108,27 +317,29 @@ export async function patchSpec(input: PatchSpecInput): Promise<SpecPatchResult>
       affectedModules,
       regulationTrigger: `${regulation.framework} ${regulation.article}`,
       patchedAt: new Date().toISOString(),
+      conflicts,
     };
   }
 
-  // ── Step 4: Apply diffs → produce updated modules ─────────
-  const updatedModules = await applyDiffsToSpec(currentSpec, allDiffs);
-
-  // ── Step 5: Create new spec version ───────────────────────
+  // ── Step 5: Build the new spec version ────────────────────
+  // A version on top of a pending draft can only be a draft too
+  const pendingApproval =
+    settings.approvalRequired || currentSpec.status === 'draft' || hallucinatedCitations.length > 0;
   const newVersionId = uuidv4();
   const newVersionNumber = currentSpec.versionNumber + 1;
-  const versionLabel = bumpMinorVersion(currentSpec.versionLabel ?? 'v1.0.0');
+  const versionLabel = nextVersionLabel(currentSpec.versionLabel, applied, settings.versioningPolicy);
+  const regulationTrigger = `${regulation.framework} ${regulation.article}`;
 
-  const { error: insertError } = await supabase.from('spec_versions').insert({
+  const specVersionRow = {
     id: newVersionId,
     workspace_id: workspaceId,
     parent_id: specVersionId,        // Links the version chain
     version_number: newVersionNumber,
     version_label: versionLabel,
-    status: 'active',               // Trigger auto-supersedes parent via DB trigger
-    change_reason: `Compliance update: ${regulation.framework} ${regulation.article} — ${allDiffs.length} clause(s) patched`,
+    status: pendingApproval ? 'draft' : 'active', // Active auto-supersedes parent via DB trigger
+    change_reason: `Compliance update: ${regulationTrigger} — ${applied.length} clause(s) patched`,
     triggered_by: 'regulation_update',
-    regulation_trigger: `${regulation.framework} ${regulation.article}`,
+    regulation_trigger: regulationTrigger,
     jurisdictions: currentSpec.jurisdictions,
     frameworks: currentSpec.frameworks,
     master_specification: updatedModules.master_specification,
@@ -137,14 +348,10 @@ export async function patchSpec(input: PatchSpecInput): Promise<SpecPatchResult>
     tech_stack_justification: updatedModules.tech_stack_justification,
     code_scaffolding: updatedModules.code_scaffolding,
     created_by: null, // System-generated
-  });
-
-  if (insertError) {
-    throw new Error(`[Patcher] Failed to create new spec version: ${insertError.message}`);
-  }
+  };
 
-  // ── Step 6: Save diffs to audit table ─────────────────────
-  const diffRows = allDiffs.map(d => ({
+  // ── Step 6: Diffs for the audit table ─────────────────────
+  const diffRows = applied.map(d => ({
     from_version_id: specVersionId,
     to_version_id: newVersionId,
     module: d.module,
@@ -157,21 +364,21 @@ export async function patchSpec(input: PatchSpecInput): Promise<SpecPatchResult>
     severity: d.severity,
   }));
 
-  await supabase.from('spec_diffs').insert(diffRows);
-
-  // ── Step 7: Log the impact ─────────────────────────────────
-  await supabase.from('regulation_impact_log').insert({
+  // ── Step 7: Impact log entry ──────────────────────────────
+  const impactLogRow = {
     regulation_id: regulation.id,
-    regulation_ref: `${regulation.framework} ${regulation.article}`,
+    regulation_ref: regulationTrigger,
     workspace_id: workspaceId,
     spec_version_id: specVersionId,
     new_spec_version_id: newVersionId,
     affected_modules: affectedModules,
-    diff_count: allDiffs.length,
-    status: 'patched',
-  });
+    diff_count: applied.length,
+    patch_conflicts: conflicts,
+    hallucinated_citations: hallucinatedCitations,
+    status: pendingApproval ? 'pending_approval' : 'patched',
+  };
 
-  // ── Step 8: Publish events ─────────────────────────────────
+  // ── Step 8: Outgoing events (via the outbox) ──────────────
 
   // Notify the ecosystem that a spec was updated
   const specUpdatedEvent: SpecUpdatedEvent = {
@@ -180,42 +387,139 @@ export async function patchSpec(input: PatchSpecInput): Promise<SpecPatchResult>
     workspaceId,
     specVersionId,
     newVersionId,
-    regulationTrigger: `${regulation.framework} ${regulation.article}`,
+    regulationTrigger,
     affectedModules,
-    diffs: allDiffs,
+    diffs: applied,
     githubPrRequested: true,
   };
 
-  await publishEvent(TOPICS.SPEC_UPDATED, specUpdatedEvent, workspaceId);
-
   // Request GitHub PR creation
-  await publishEvent(TOPICS.SPEC_PR_REQUESTED, {
+  const prRequestedEvent: SpecPrRequestedEvent = {
     eventId: uuidv4(),
+    eventType: 'spec.pr_requested',
     workspaceId,
     specVersionId: newVersionId,
     previousVersionId: specVersionId,
-    regulationTrigger: `${regulation.framework} ${regulation.article}`,
+    regulationTrigger,
     affectedModules,
-    diffs: allDiffs,
+    diffs: applied,
     versionLabel,
-  }, workspaceId);
+  };
+
+  // Drafts publish nothing until approved
+  const outboxRows = pendingApproval ? [] : [
+    toOutboxRow(TOPICS.SPEC_UPDATED, specUpdatedEvent, workspaceId),
+    toOutboxRow(TOPICS.SPEC_PR_REQUESTED, prRequestedEvent, workspaceId),
+  ];
+
+  // ── Commit steps 5–8 atomically ───────────────────────────
+  // Inserts into spec_versions, spec_diffs, regulation_impact_log
+  // (when p_impact_log is given) and event_outbox in a single
+  // transaction — but only if p_expected_parent_id (the active
+  // version, or the draft at the top of the stack) still has no
+  // non-archived successor on its branch (row-locked)
+  const { error: commitError } = await supabase.rpc('commit_spec_patch', {
+    p_expected_parent_id: specVersionId,
+    p_spec_version: specVersionRow,
+    p_diffs: diffRows,
+    p_impact_log: impactLogRow,
+    p_outbox: outboxRows,
+  });
+
+  if (isHeadMovedError(commitError)) {
+    return HEAD_MOVED;
+  }
+
+  if (commitError) {
+    throw new Error(`[Patcher] Failed to commit spec patch: ${commitError.message}`);
+  }
 
   console.log(
     `[Patcher] ✅ Spec ${specVersionId} → ${newVersionId} (${versionLabel}) | ` +
-    `${allDiffs.length} diffs across ${affectedModules.length} modules`,
+    `${applied.length} diffs across ${affectedModules.length} modules` +
+    (pendingApproval ? ' | draft, pending approval' : ''),
   );
 
   return {
     specVersionId,
     newVersionId,
     newVersionNumber,
-    diffs: allDiffs,
+    diffs: applied,
     affectedModules,
-    regulationTrigger: `${regulation.framework} ${regulation.article}`,
+    regulationTrigger,
     patchedAt: new Date().toISOString(),
+    conflicts,
+    ...(pendingApproval ? { pendingApproval: true } : {}),
+    ...(hallucinatedCitations.length > 0 ? { hallucinatedCitations } : {}),
   };
 }
 
+interface GeneratedPatch extends ApplyDiffsResult {
+  affectedModules: ModuleKey[];
+  diffs: ClauseDiff[];   // Everything the model proposed, applied or not
+  hallucinatedCitations: HallucinatedCitation[];
+}
+
+/**
+ * Steps 2–4 of a patch: which modules, which diffs, and how they
+ * apply to `currentSpec`. Model calls only — nothing is written.
+ */
+async function generatePatch(
+  regulation: PatchSpecInput['regulation'],
+  currentSpec: SpecVersion,
+  moduleScores?: ModuleImpactScores,
+  semanticThreshold?: number,
+): Promise<GeneratedPatch> {
+  // ── Step 2: Detect which modules are affected ──────────────
+  const affectedModules = await detectAffectedModules(regulation, currentSpec, moduleScores, semanticThreshold);
+
+  if (affectedModules.length === 0) {
+    console.log(`[Patcher] No modules affected for spec ${currentSpec.id}. Skipping.`);
+    return { affectedModules, diffs: [], modules: currentSpec.modules, applied: [], conflicts: [], hallucinatedCitations: [] };
+  }
+
+  console.log(`[Patcher] Affected modules: ${affectedModules.join(', ')}`);
+
+  // ── Step 3: Generate clause diffs per module ───────────────
+  const diffs: ClauseDiff[] = [];
+
+  for (const moduleKey of affectedModules) {
+    const moduleData = currentSpec.modules[moduleKey];
+    if (!moduleData) continue;
+
+    console.log(`[Patcher] Generating diffs for module: ${moduleKey}`);
+
+    const moduleDiffs = await generateModuleDiffs(regulation, moduleKey, moduleData);
+    diffs.push(...moduleDiffs);
+
+    console.log(`[Patcher] ${moduleDiffs.length} diffs found in ${moduleKey}`);
+  }
+
+  if (diffs.length === 0) {
+    console.log(`[Patcher] Regulation analyzed but no clause changes required. Spec already compliant.`);
+    return { affectedModules, diffs, modules: currentSpec.modules, applied: [], conflicts: [], hallucinatedCitations: [] };
+  }
+
+  // ── Step 4: Apply diffs → produce updated modules ─────────
+  const result = applyDiffsToSpec(currentSpec, diffs);
+
+  if (result.conflicts.length > 0) {
+    console.warn(`[Patcher] ${result.conflicts.length} / ${diffs.length} diffs conflicted with spec ${currentSpec.id}`);
+  }
+
+  // The patched spec may cite the triggering regulation and whatever it already cited
+  const citations = verifyCitations(result.modules, [regulation], listCitations(currentSpec.modules));
+
+  if (citations.hallucinated.length > 0) {
+    console.warn(
+      `[Patcher] Patch cites ${citations.hallucinated.length} regulation(s) outside its context: ` +
+      citations.hallucinated.map(h => h.citation).join(', '),
+    );
+  }
+
+  return { affectedModules, diffs, ...result, hallucinatedCitations: citations.hallucinated };
+}
+
 // ── Helpers ────────────────────────────────────────────────────
 
 function mapRowToSpec(row: any): SpecVersion {
@@ -223,6 +527,7 @@ function mapRowToSpec(row: any): SpecVersion {
     id: row.id,
     workspaceId: row.workspace_id,
     parentId: row.parent_id,
+    branchId: row.branch_id,
     versionNumber: row.version_number,
     versionLabel: row.version_label,
     status: row.status,
@@ -244,11 +549,3 @@ function mapRowToSpec(row: any): SpecVersion {
     githubPrUrl: row.github_pr_url,
   };
 }
-
-function bumpMinorVersion(current: string): string {
-  // "v1.2.3" → "v1.3.0"
-  const match = current.match(/^v?(\d+)\.(\d+)\.(\d+)$/);
-  if (!match) return `${current}.1`;
-  const [, major, minor] = match;
-  return `v${major}.${parseInt(minor) + 1}.0`;
-}
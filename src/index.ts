@@ -158,6 +158,7 @@ export interface SpecVersion {
   id: string;
   workspaceId: string;
   parentId: string | null;    // null = first version
+  branchId?: string | null;   // null = main line
   versionNumber: number;      // 1, 2, 3...
   versionLabel: string;       // "v1.0.0", "v1.1.0"
   status: SpecStatus;
@@ -192,6 +193,71 @@ export interface ClauseDiff {
   severity: 'low' | 'medium' | 'high' | 'critical';
 }
 
+// ── Clause Review ─────────────────────────────────────────────
+// Reviewers accept or reject a draft patch's diffs one by one
+export type ClauseReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface ClauseDiffComment {
+  id: string;
+  diffId: string;             // spec_diffs row
+  authorId: string;
+  body: string;
+  createdAt: string;
+}
+
+// Similarity (0–1) of a regulation to each module of a spec, from stored embeddings
+export type ModuleImpactScores = Partial<Record<ModuleKey, number>>;
+
+// Why a regulation did or didn't patch a spec version
+export interface ImpactAnalysisRecord {
+  id: string;
+  regulationId: string;
+  regulationRef: string;               // e.g. "GDPR Art. 32"
+  specVersionId: string;
+  semanticScore: number;               // Best module score
+  threshold: number | null;            // null = no content, patched on framework match alone
+  moduleScores?: ModuleImpactScores;
+  topSections?: Partial<Record<ModuleKey, string>>;
+  affected: boolean;
+  skipReason?: 'below_threshold' | 'not_embedded';
+  analyzedAt: string;
+}
+
+// A diff that could not be applied deterministically
+export interface PatchConflict {
+  diff: ClauseDiff;
+  kind: 'invalid_path' | 'missing_path' | 'before_mismatch' | 'type_change';
+  message: string;
+  currentValue?: string;      // Value found at clausePath, if it exists
+}
+
+// ── Branches ──────────────────────────────────────────────────
+// Named what-if variants off a main-line version, with their own chain
+export type SpecBranchStatus = 'open' | 'merged';
+
+export interface SpecBranch {
+  id: string;
+  workspaceId: string;
+  name: string;               // e.g. "hipaa", "expand-canada"
+  baseVersionId: string;      // Main-line version the branch starts from
+  status: SpecBranchStatus;
+  description?: string;
+  createdBy: string;
+  createdAt: string;
+  mergedVersionId?: string;   // Main-line version the merge produced
+  mergedAt?: string;
+}
+
+// A clause both the branch and the main line changed since the branch point
+export interface BranchMergeConflict {
+  module: ModuleKey;
+  clausePath: string;
+  fieldLabel: string;
+  base: string;               // Value at the branch point
+  main: string;
+  branch: string;
+}
+
 export interface SpecPatchResult {
   specVersionId: string;
   newVersionId: string;
@@ -200,6 +266,24 @@ export interface SpecPatchResult {
   affectedModules: ModuleKey[];
   regulationTrigger: string;
   patchedAt: string;
+  conflicts?: PatchConflict[]; // Diffs the model proposed that did not apply cleanly
+  rebasedFrom?: string;       // Version the patch was requested for, if the head had moved on
+  headMoved?: boolean;        // Head kept moving — not patched, logged for human resolution
+  pendingApproval?: boolean;  // Landed as a draft — awaiting compliance officer approval
+  hallucinatedCitations?: Array<{ citation: string; path: string }>; // Cited outside the trigger and the parent's citations — forces a draft
+  dryRun?: boolean;           // Preview only — nothing was written; newVersionId is the version it would patch
+}
+
+// Dry run of a regulation against one workspace's specs
+export interface RegulationImpactPreview {
+  regulationTrigger: string;
+  patches: SpecPatchResult[];   // One per affected spec, all dryRun
+  skipped: Array<{
+    specVersionId: string;
+    semanticScore: number;
+    threshold: number | null;
+    skipReason?: 'below_threshold' | 'not_embedded';
+  }>;
 }
 
 // ── Kafka Events ──────────────────────────────────────────────
@@ -230,6 +314,37 @@ export interface SpecUpdatedEvent {
   githubPrRequested: boolean;
 }
 
+export interface SpecCreatedEvent {
+  eventId: string;
+  eventType: 'spec.created';
+  workspaceId: string;
+  specVersionId: string;
+  versionLabel: string;
+  jurisdictions: string[];
+  frameworks: Framework[];
+  createdBy: string;
+}
+
+export interface SpecPrRequestedEvent {
+  eventId: string;
+  eventType: 'spec.pr_requested';
+  workspaceId: string;
+  specVersionId: string;      // The new version the PR is for
+  previousVersionId: string;
+  regulationTrigger: string;
+  affectedModules: ModuleKey[];
+  diffs: ClauseDiff[];
+  versionLabel: string;
+}
+
+export interface SpecPrCreatedEvent {
+  eventId: string;
+  eventType: 'spec.pr_created';
+  workspaceId: string;
+  specVersionId: string;
+  prUrl: string;
+}
+
 // ── Workspace Members ──────────────────────────────────────────
 export interface WorkspaceMember {
   id: string;
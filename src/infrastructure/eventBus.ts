@@ -0,0 +1,234 @@
+// ============================================================
+// ASSURE CODE — Event Bus
+// Transport-neutral contract for the event backbone, with two
+// implementations:
+//   kafka   → kafka.client.ts      (production, default)
+//   memory  → inMemoryEventBus.ts  (single process: laptop, CI)
+//
+// Both share deliverMessage(): decode + upcast the event, skip
+// events the group already handled, run the handler with
+// bounded retries, dead-letter on failure.
+// ============================================================
+
+import { decodeEvent, EventSchemaError, KafkaEventMap } from './eventSchemas';
+
+// ── Topic Registry ────────────────────────────────────────────
+export const TOPICS = {
+  REGULATION_NEW: 'regulation.new',
+  REGULATION_UPDATED: 'regulation.updated',
+  SPEC_CREATED: 'spec.created',
+  SPEC_UPDATED: 'spec.updated',
+  SPEC_PR_REQUESTED: 'spec.pr_requested',
+  SPEC_PR_CREATED: 'spec.pr_created',
+} as const;
+
+export type KafkaTopic = typeof TOPICS[keyof typeof TOPICS];
+
+const DEAD_LETTER_SUFFIX = '.dlq';
+
+// Set on replayed dead letters: only the group that failed the
+// message handles it again, every other group skips it
+export const REPLAY_TARGET_GROUP_HEADER = 'x-dlq-target-group';
+
+export function deadLetterTopic(topic: KafkaTopic): string {
+  return `${topic}${DEAD_LETTER_SUFFIX}`;
+}
+
+// ── Messages & Handlers ────────────────────────────────────────
+
+/**
+ * A message as delivered by either transport.
+ */
+export interface BusMessage {
+  topic: KafkaTopic;
+  partition: number;
+  offset: string;
+  key: string | null;
+  value: string;                     // JSON envelope, as published
+  headers: Record<string, string>;
+  timestamp: string;                 // Epoch millis, as a string (Kafka convention)
+}
+
+export type MessageHandler<T = any> = (
+  payload: T,
+  rawMessage: BusMessage,
+) => Promise<void>;
+
+export type MessageHandlers = {
+  [K in KafkaTopic]?: MessageHandler<KafkaEventMap[K]>;
+};
+
+export interface EventBus {
+  readonly name: string;
+
+  /**
+   * Validate an event against its topic's schema and publish it.
+   * Events with the same key are delivered in publish order.
+   */
+  publish<K extends KafkaTopic>(topic: K, payload: KafkaEventMap[K], key?: string): Promise<void>;
+
+  /**
+   * Start consuming topics as a consumer group. Every group sees
+   * every event; within a group each event is handled once.
+   */
+  subscribe(groupId: string, topics: KafkaTopic[], handlers: MessageHandlers): Promise<void>;
+
+  disconnect(): Promise<void>;
+}
+
+// ── Dead Letters ───────────────────────────────────────────────
+
+/**
+ * What a dead-letter topic carries: the original message,
+ * untouched, plus why and where it failed.
+ */
+export interface DeadLetterRecord {
+  originalTopic: KafkaTopic;
+  originalPartition: number;
+  originalOffset: string;
+  originalKey: string | null;
+  originalTimestamp: string;
+  originalHeaders: Record<string, string>;
+  payload: string;              // Original message value, as received
+  consumerGroup: string;
+  attempts: number;
+  error: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+  deadLetteredAt: string;
+}
+
+export function toDeadLetterRecord(
+  message: BusMessage,
+  consumerGroup: string,
+  err: Error,
+  attempts: number,
+): DeadLetterRecord {
+  return {
+    originalTopic: message.topic,
+    originalPartition: message.partition,
+    originalOffset: message.offset,
+    originalKey: message.key,
+    originalTimestamp: message.timestamp,
+    originalHeaders: message.headers,
+    payload: message.value,
+    consumerGroup,
+    attempts,
+    error: {
+      name: err.name ?? 'Error',
+      message: err.message ?? String(err),
+      ...(err.stack ? { stack: err.stack } : {}),
+    },
+    deadLetteredAt: new Date().toISOString(),
+  };
+}
+
+// ── Idempotency ────────────────────────────────────────────────
+
+/**
+ * The eventIds each consumer group has handled. Delivery is at
+ * least once (outbox re-sends, rebalances), so a redelivered
+ * event is skipped rather than handled twice.
+ */
+export interface ProcessedEventStore {
+  has(groupId: string, eventId: string): Promise<boolean>;
+  add(groupId: string, eventId: string): Promise<void>;
+}
+
+// ── Delivery ───────────────────────────────────────────────────
+// Retries happen in-line, so the worst case (~7.5s at defaults)
+// must stay well under the Kafka consumer session timeout
+
+const MAX_HANDLER_ATTEMPTS = Math.max(1, Number(process.env.KAFKA_HANDLER_MAX_ATTEMPTS ?? 5));
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 10_000;
+
+export interface DeliveryContext {
+  groupId: string;
+  deadLetter: (record: DeadLetterRecord) => Promise<void>;
+  heartbeat?: () => Promise<void>;
+  processedEvents?: ProcessedEventStore;     // Without one, duplicates are handled again
+  retryDelay?: (attempt: number) => number;   // Override backoff (tests)
+}
+
+/**
+ * Decode a message and run its handler, retrying with backoff.
+ * Messages that can't be decoded, or whose handler keeps
+ * failing, are dead-lettered. If dead-lettering itself fails the
+ * error propagates so the transport redelivers the message.
+ */
+export async function deliverMessage(
+  message: BusMessage,
+  handlers: MessageHandlers,
+  ctx: DeliveryContext,
+): Promise<void> {
+  const { topic } = message;
+
+  const targetGroup = message.headers[REPLAY_TARGET_GROUP_HEADER];
+  if (targetGroup && targetGroup !== ctx.groupId) return; // Replay meant for another group
+
+  const handler = handlers[topic] as MessageHandler | undefined;
+  if (!handler) {
+    console.warn(`[EventBus] No handler registered for topic: ${topic}`);
+    return;
+  }
+
+  let event: { eventId: string };
+  try {
+    event = decodeEvent(topic, JSON.parse(message.value));
+  } catch (err: any) {
+    // Retrying won't make it parse or validate — straight to the dead-letter topic
+    const reason = err instanceof EventSchemaError ? 'Rejected' : 'Failed to parse';
+    console.error(`[EventBus] ${reason} message on ${topic}: ${err.message}`);
+    await ctx.deadLetter(toDeadLetterRecord(message, ctx.groupId, err, 1));
+    return;
+  }
+
+  const { eventId } = event;
+  if (ctx.processedEvents && await ctx.processedEvents.has(ctx.groupId, eventId)) {
+    console.log(`[EventBus] Skipping duplicate ${topic} event ${eventId} (group: ${ctx.groupId})`);
+    return;
+  }
+
+  const delayFor = ctx.retryDelay ?? retryDelay;
+
+  for (let attempt = 1; attempt <= MAX_HANDLER_ATTEMPTS; attempt++) {
+    try {
+      await handler(event, message);
+    } catch (err: any) {
+      if (attempt === MAX_HANDLER_ATTEMPTS) {
+        console.error(
+          `[EventBus] Handler error on ${topic} (attempt ${attempt}/${MAX_HANDLER_ATTEMPTS}): ${err.message}. Dead-lettering.`,
+        );
+        await ctx.deadLetter(toDeadLetterRecord(message, ctx.groupId, err, attempt));
+        return;
+      }
+
+      const delay = delayFor(attempt);
+      console.warn(
+        `[EventBus] Handler error on ${topic} (attempt ${attempt}/${MAX_HANDLER_ATTEMPTS}): ${err.message}. ` +
+        `Retrying in ${delay}ms.`,
+      );
+      await sleep(delay);
+      await ctx.heartbeat?.();
+      continue;
+    }
+
+    // Recorded only once handled; if recording fails the error
+    // propagates, the transport redelivers and the handler runs again
+    await ctx.processedEvents?.add(ctx.groupId, eventId);
+    return;
+  }
+}
+
+// Exponential backoff with jitter: ~500ms, 1s, 2s, 4s … capped at 10s
+function retryDelay(attempt: number): number {
+  const base = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+  return Math.round(base / 2 + Math.random() * (base / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,88 @@
+// ============================================================
+// ASSURE CODE — Event Bus Registry
+// The process-wide EventBus. Producers and consumers go
+// through publishEvent() / createConsumer() here and never
+// touch a transport directly.
+//
+// Config (env):
+//   EVENT_BUS=kafka|memory   (default: kafka)
+//
+// With EVENT_BUS=memory the regulation → patch → PR flow runs
+// in one Node process — no broker needed.
+// ============================================================
+
+import { EventBus, KafkaTopic, MessageHandlers } from './eventBus';
+import { KafkaEventMap } from './eventSchemas';
+import { KafkaEventBus } from './kafka.client';
+import { InMemoryEventBus } from './inMemoryEventBus';
+
+export type EventBusName = 'kafka' | 'memory';
+
+let _bus: EventBus | null = null;
+
+/**
+ * Get the configured event bus.
+ */
+export function getEventBus(): EventBus {
+  if (!_bus) _bus = createEventBus();
+  return _bus;
+}
+
+/**
+ * Override the event bus (tests, local experiments).
+ */
+export function setEventBus(bus: EventBus): void {
+  _bus = bus;
+}
+
+/**
+ * Drop the cached bus so the next getEventBus() re-reads config.
+ */
+export function resetEventBus(): void {
+  _bus = null;
+}
+
+/**
+ * Publish an event on the configured bus.
+ */
+export async function publishEvent<K extends KafkaTopic>(
+  topic: K,
+  payload: KafkaEventMap[K],
+  key?: string,
+): Promise<void> {
+  await getEventBus().publish(topic, payload, key);
+}
+
+/**
+ * Subscribe a consumer group on the configured bus.
+ */
+export async function createConsumer(
+  groupId: string,
+  topics: KafkaTopic[],
+  handlers: MessageHandlers,
+): Promise<void> {
+  await getEventBus().subscribe(groupId, topics, handlers);
+}
+
+export async function disconnectEventBus(): Promise<void> {
+  if (_bus) await _bus.disconnect();
+}
+
+function createEventBus(): EventBus {
+  const name = (process.env.EVENT_BUS ?? 'kafka') as EventBusName;
+
+  switch (name) {
+    case 'kafka':
+      return new KafkaEventBus();
+    case 'memory':
+      console.log('[EventBus] Using in-memory event bus — events do not leave this process.');
+      return new InMemoryEventBus();
+    default:
+      throw new Error(`[EventBus] Unknown EVENT_BUS "${name}". Expected kafka or memory.`);
+  }
+}
+
+// ── Graceful Shutdown ──────────────────────────────────────────
+
+process.on('SIGTERM', disconnectEventBus);
+process.on('SIGINT', disconnectEventBus);
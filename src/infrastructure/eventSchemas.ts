@@ -0,0 +1,244 @@
+// ============================================================
+// ASSURE CODE — Kafka Event Schemas
+// One declared, versioned schema per topic. Publishing
+// validates against the current version; consuming upcasts
+// older versions step by step, then validates.
+//
+// Wire format: the event fields plus a _meta block —
+//   { ...event, _meta: { topic, schemaVersion, publishedAt, source } }
+// Messages without _meta.schemaVersion predate versioning and
+// are read as version 1.
+//
+// To change an event shape: bump `version`, update the schema
+// and add an upcaster from the previous version.
+// ============================================================
+
+import { z, ZodType, ZodTypeDef } from 'zod';
+import type { KafkaTopic } from './eventBus';
+import { moduleKeySchema } from '../ai-engine/outputSchemas';
+import { formatZodIssues } from '../ai-engine/structuredOutput';
+import {
+  RegulationNewEvent,
+  SpecUpdatedEvent,
+  SpecCreatedEvent,
+  SpecPrRequestedEvent,
+  SpecPrCreatedEvent,
+} from '../types';
+
+export const EVENT_SOURCE = 'assure-code-api-gateway';
+
+/**
+ * Payload type carried on each topic.
+ */
+export interface KafkaEventMap {
+  'regulation.new': RegulationNewEvent;
+  'regulation.updated': RegulationNewEvent;
+  'spec.created': SpecCreatedEvent;
+  'spec.updated': SpecUpdatedEvent;
+  'spec.pr_requested': SpecPrRequestedEvent;
+  'spec.pr_created': SpecPrCreatedEvent;
+}
+
+export interface EventMeta {
+  topic: KafkaTopic;
+  schemaVersion: number;
+  publishedAt: string;
+  source: string;
+}
+
+/**
+ * Thrown when an event doesn't match its topic's schema, or
+ * arrives in a version this service can't read.
+ */
+export class EventSchemaError extends Error {
+  constructor(
+    public readonly topic: string,
+    public readonly schemaVersion: number | null,
+    public readonly issues: string[],
+  ) {
+    super(`[EventSchema] ${topic} v${schemaVersion ?? '?'}: ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'EventSchemaError';
+  }
+}
+
+interface EventSchemaDefinition<T> {
+  version: number;                                           // Current version
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  upcasters: Record<number, (event: any) => unknown>;        // Version n → n + 1
+}
+
+// ── Shared pieces ─────────────────────────────────────────────
+
+const clauseDiffSchema = z.object({
+  module: moduleKeySchema,
+  clausePath: z.string().min(1),
+  fieldLabel: z.string(),
+  before: z.string(),
+  after: z.string(),
+  reason: z.string(),
+  regulationTrigger: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+});
+
+const regulationEventSchema = z.object({
+  eventId: z.string().min(1),
+  eventType: z.enum(['regulation.new', 'regulation.updated']),
+  regulation: z.object({
+    id: z.string().min(1),
+    framework: z.string().min(1),
+    article: z.string().min(1),
+    title: z.string(),
+    content: z.string(),
+    jurisdiction: z.string().min(1),
+    severity: z.string(),
+  }),
+  scrapedAt: z.string(),
+});
+
+// ── Registry ───────────────────────────────────────────────────
+
+export const EVENT_SCHEMAS: { [K in KafkaTopic]: EventSchemaDefinition<KafkaEventMap[K]> } = {
+  'regulation.new': {
+    version: 1,
+    schema: regulationEventSchema,
+    upcasters: {},
+  },
+
+  'regulation.updated': {
+    version: 1,
+    schema: regulationEventSchema,
+    upcasters: {},
+  },
+
+  'spec.created': {
+    version: 1,
+    schema: z.object({
+      eventId: z.string().min(1),
+      eventType: z.literal('spec.created'),
+      workspaceId: z.string().min(1),
+      specVersionId: z.string().min(1),
+      versionLabel: z.string(),
+      jurisdictions: z.array(z.string()),
+      frameworks: z.array(z.string()),
+      createdBy: z.string(),
+    }),
+    upcasters: {},
+  },
+
+  'spec.updated': {
+    version: 1,
+    schema: z.object({
+      eventId: z.string().min(1),
+      eventType: z.literal('spec.updated'),
+      workspaceId: z.string().min(1),
+      specVersionId: z.string().min(1),
+      newVersionId: z.string().min(1),
+      regulationTrigger: z.string(),
+      affectedModules: z.array(moduleKeySchema),
+      diffs: z.array(clauseDiffSchema),
+      githubPrRequested: z.boolean(),
+    }),
+    upcasters: {},
+  },
+
+  'spec.pr_requested': {
+    version: 2,
+    schema: z.object({
+      eventId: z.string().min(1),
+      eventType: z.literal('spec.pr_requested'),
+      workspaceId: z.string().min(1),
+      specVersionId: z.string().min(1),
+      previousVersionId: z.string().min(1),
+      regulationTrigger: z.string(),
+      affectedModules: z.array(moduleKeySchema),
+      diffs: z.array(clauseDiffSchema),
+      versionLabel: z.string(),
+    }),
+    upcasters: {
+      // v1 was published without an eventType
+      1: (event) => ({ ...event, eventType: 'spec.pr_requested' }),
+    },
+  },
+
+  'spec.pr_created': {
+    version: 1,
+    schema: z.object({
+      eventId: z.string().min(1),
+      eventType: z.literal('spec.pr_created'),
+      workspaceId: z.string().min(1),
+      specVersionId: z.string().min(1),
+      prUrl: z.string().url(),
+    }),
+    upcasters: {},
+  },
+};
+
+// ── Encode / Decode ────────────────────────────────────────────
+
+/**
+ * Validate an outgoing event against its topic's current schema
+ * and wrap it for the wire.
+ */
+export function encodeEvent<K extends KafkaTopic>(
+  topic: K,
+  event: KafkaEventMap[K],
+): KafkaEventMap[K] & { _meta: EventMeta } {
+  const definition = EVENT_SCHEMAS[topic];
+  const result = definition.schema.safeParse(event);
+
+  if (!result.success) {
+    throw new EventSchemaError(topic, definition.version, formatZodIssues(result.error));
+  }
+
+  return {
+    ...result.data,
+    _meta: {
+      topic,
+      schemaVersion: definition.version,
+      publishedAt: new Date().toISOString(),
+      source: EVENT_SOURCE,
+    },
+  };
+}
+
+/**
+ * Read an incoming event: upcast it to the current version of
+ * its topic's schema and validate. Events from a newer producer,
+ * or from a version with no upcast path, are rejected.
+ */
+export function decodeEvent<K extends KafkaTopic>(topic: K, raw: unknown): KafkaEventMap[K] {
+  const definition = EVENT_SCHEMAS[topic];
+
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new EventSchemaError(topic, null, ['Event is not a JSON object']);
+  }
+
+  const { _meta, ...event } = raw as Record<string, any>;
+  const version = _meta?.schemaVersion ?? 1;
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new EventSchemaError(topic, null, [`Invalid schemaVersion: ${JSON.stringify(version)}`]);
+  }
+
+  if (version > definition.version) {
+    throw new EventSchemaError(topic, version, [
+      `Published as v${version} but this service reads up to v${definition.version}`,
+    ]);
+  }
+
+  let upcast: unknown = event;
+  for (let v = version; v < definition.version; v++) {
+    const upcaster = definition.upcasters[v];
+    if (!upcaster) {
+      throw new EventSchemaError(topic, version, [`No upcaster from v${v} to v${v + 1}`]);
+    }
+    upcast = upcaster(upcast);
+  }
+
+  const result = definition.schema.safeParse(upcast);
+  if (!result.success) {
+    throw new EventSchemaError(topic, version, formatZodIssues(result.error));
+  }
+
+  return result.data;
+}
@@ -6,7 +6,8 @@
 // ============================================================
 
 import Bull, { Queue, Job } from 'bull';
-import { createConsumer, TOPICS } from '../events/kafka.client';
+import { createConsumer } from './eventBusRegistry';
+import { TOPICS } from './eventBus';
 import { createCompliancePR, CreateCompliancePRInput } from './githubService';
 import { createClient } from '@supabase/supabase-js';
 
@@ -0,0 +1,209 @@
+// ============================================================
+// ASSURE CODE — In-Memory Event Bus
+// Single-process EventBus for local runs and CI: the whole
+// regulation → patch → PR flow without a Kafka broker.
+//
+// Mirrors the Kafka semantics the consumers rely on:
+//   - every consumer group sees every event published after
+//     it subscribed; within a group each event is handled once
+//   - events are partitioned by key, and each group handles a
+//     partition strictly in order (so per-key ordering holds)
+//   - same schema validation, duplicate skipping, retries and
+//     dead-lettering
+//
+// Nothing is persisted — state lives as long as the process.
+// ============================================================
+
+import { encodeEvent, KafkaEventMap } from './eventSchemas';
+import {
+  EventBus,
+  BusMessage,
+  MessageHandlers,
+  DeadLetterRecord,
+  KafkaTopic,
+  deliverMessage,
+  REPLAY_TARGET_GROUP_HEADER,
+} from './eventBus';
+import { InMemoryProcessedEventStore } from './processedEvents';
+
+const DEFAULT_PARTITIONS = 3;
+
+export interface InMemoryEventBusOptions {
+  partitions?: number;                        // Per topic (default 3)
+  retryDelay?: (attempt: number) => number;   // Handler backoff override, e.g. () => 0 in tests
+}
+
+interface GroupMember {
+  topics: Set<KafkaTopic>;
+  handlers: MessageHandlers;
+}
+
+interface ConsumerGroup {
+  members: GroupMember[];
+  // One delivery chain per topic-partition — keeps each partition in order
+  chains: Map<string, Promise<void>>;
+}
+
+export class InMemoryEventBus implements EventBus {
+  readonly name = 'memory';
+
+  private readonly partitions: number;
+  private readonly logs = new Map<KafkaTopic, BusMessage[][]>();
+  private readonly groups = new Map<string, ConsumerGroup>();
+  private readonly deadLetters = new Map<KafkaTopic, DeadLetterRecord[]>();
+  private readonly pending = new Set<Promise<void>>();
+  private readonly processedEvents = new InMemoryProcessedEventStore();
+  private roundRobin = 0;
+
+  constructor(private readonly options: InMemoryEventBusOptions = {}) {
+    this.partitions = Math.max(1, options.partitions ?? DEFAULT_PARTITIONS);
+  }
+
+  async publish<K extends KafkaTopic>(topic: K, payload: KafkaEventMap[K], key?: string): Promise<void> {
+    const envelope = encodeEvent(topic, payload); // Throws EventSchemaError before anything is stored
+
+    this.append(topic, key ?? null, JSON.stringify(envelope), {
+      'content-type': 'application/json',
+      'x-schema-version': String(envelope._meta.schemaVersion),
+    });
+
+    console.log(`[EventBus:memory] Published to ${topic}${key ? ` (key: ${key})` : ''}`);
+  }
+
+  async subscribe(groupId: string, topics: KafkaTopic[], handlers: MessageHandlers): Promise<void> {
+    let group = this.groups.get(groupId);
+    if (!group) {
+      group = { members: [], chains: new Map() };
+      this.groups.set(groupId, group);
+    }
+
+    group.members.push({ topics: new Set(topics), handlers });
+    console.log(`[EventBus:memory] Consumer group "${groupId}" subscribed to: ${topics.join(', ')}`);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.drain();
+    this.groups.clear();
+  }
+
+  /**
+   * Resolve once every published event — including events
+   * published by handlers along the way — has been handled.
+   */
+  async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.allSettled([...this.pending]);
+    }
+  }
+
+  /**
+   * Events published to a topic, in publish order, decoded
+   * from the wire envelope.
+   */
+  getMessages(topic: KafkaTopic): Array<{ key: string | null; event: unknown }> {
+    return (this.logs.get(topic) ?? [])
+      .flat()
+      .sort((a, b) => Number(a.timestamp) - Number(b.timestamp) || Number(a.offset) - Number(b.offset))
+      .map(m => ({ key: m.key, event: JSON.parse(m.value) }));
+  }
+
+  getDeadLetters(topic: KafkaTopic): DeadLetterRecord[] {
+    return [...(this.deadLetters.get(topic) ?? [])];
+  }
+
+  /**
+   * Send a topic's dead letters back to it, as-is — each to
+   * the consumer group that failed it.
+   */
+  replayDeadLetters(topic: KafkaTopic): number {
+    const records = this.deadLetters.get(topic) ?? [];
+    this.deadLetters.delete(topic);
+
+    for (const record of records) {
+      this.append(record.originalTopic, record.originalKey, record.payload, {
+        ...record.originalHeaders,
+        [REPLAY_TARGET_GROUP_HEADER]: record.consumerGroup,
+      });
+    }
+
+    return records.length;
+  }
+
+  // ── Internals ─────────────────────────────────────────────
+
+  private append(
+    topic: KafkaTopic,
+    key: string | null,
+    value: string,
+    headers: Record<string, string>,
+  ): void {
+    let partitions = this.logs.get(topic);
+    if (!partitions) {
+      partitions = Array.from({ length: this.partitions }, () => []);
+      this.logs.set(topic, partitions);
+    }
+
+    const partition = key !== null
+      ? hashKey(key) % this.partitions
+      : this.roundRobin++ % this.partitions;
+
+    const log = partitions[partition];
+    const message: BusMessage = {
+      topic,
+      partition,
+      offset: String(log.length),
+      key,
+      value,
+      headers,
+      timestamp: String(Date.now()),
+    };
+    log.push(message);
+
+    for (const [groupId, group] of this.groups) {
+      this.dispatch(groupId, group, message);
+    }
+  }
+
+  private dispatch(groupId: string, group: ConsumerGroup, message: BusMessage): void {
+    const members = group.members.filter(m => m.topics.has(message.topic));
+    if (members.length === 0) return;
+
+    // Partition → member assignment is fixed, like a settled rebalance
+    const member = members[message.partition % members.length];
+    const chainKey = `${message.topic}:${message.partition}`;
+
+    const delivery = (group.chains.get(chainKey) ?? Promise.resolve())
+      .then(() =>
+        deliverMessage(message, member.handlers, {
+          groupId,
+          retryDelay: this.options.retryDelay,
+          processedEvents: this.processedEvents,
+          deadLetter: async (record) => {
+            const records = this.deadLetters.get(record.originalTopic) ?? [];
+            records.push(record);
+            this.deadLetters.set(record.originalTopic, records);
+            console.error(
+              `[EventBus:memory] Dead-lettered ${record.originalTopic}[${record.originalPartition}]@${record.originalOffset} ` +
+              `(group: ${groupId}, attempts: ${record.attempts})`,
+            );
+          },
+        }),
+      )
+      .catch((err: any) => {
+        console.error(`[EventBus:memory] Delivery failed on ${chainKey} (group: ${groupId}): ${err.message}`);
+      });
+
+    group.chains.set(chainKey, delivery);
+    this.pending.add(delivery);
+    delivery.finally(() => this.pending.delete(delivery));
+  }
+}
+
+// djb2 — stable across runs, which is all partitioning needs
+function hashKey(key: string): number {
+  let hash = 5381;
+  for (let i = 0; i < key.length; i++) {
+    hash = ((hash << 5) + hash + key.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
@@ -1,6 +1,7 @@
 // ============================================================
 // ASSURE CODE — Kafka Event Bus
-// Bidirectional event backbone for the entire ecosystem.
+// Bidirectional event backbone for the entire ecosystem, and
+// the production EventBus implementation (see eventBus.ts).
 // Topics:
 //   regulation.new       → scraped regulation arrives
 //   regulation.updated   → existing regulation amended
@@ -8,28 +9,38 @@
 //   spec.updated         → spec auto-patched by regulation update
 //   spec.pr_requested    → GitHub PR creation requested
 //   spec.pr_created      → GitHub PR successfully opened
+//
+// Each topic's payload has a versioned schema (eventSchemas.ts):
+// validated on publish, upcast + validated on consume.
+//
+// Every topic has a dead-letter twin (<topic>.dlq). A message
+// whose handler still fails after bounded retries is parked
+// there with its error; replayDeadLetters() sends it back.
 // ============================================================
 
-import { Kafka, Producer, Consumer, EachMessagePayload, logLevel } from 'kafkajs';
+import { Kafka, Producer, Consumer, IHeaders, logLevel } from 'kafkajs';
+import { encodeEvent, EVENT_SOURCE, KafkaEventMap } from './eventSchemas';
+import {
+  EventBus,
+  BusMessage,
+  MessageHandlers,
+  DeadLetterRecord,
+  KafkaTopic,
+  deadLetterTopic,
+  deliverMessage,
+  REPLAY_TARGET_GROUP_HEADER,
+} from './eventBus';
+import { SupabaseProcessedEventStore } from './processedEvents';
 
-// ── Topic Registry ────────────────────────────────────────────
-export const TOPICS = {
-  REGULATION_NEW: 'regulation.new',
-  REGULATION_UPDATED: 'regulation.updated',
-  SPEC_CREATED: 'spec.created',
-  SPEC_UPDATED: 'spec.updated',
-  SPEC_PR_REQUESTED: 'spec.pr_requested',
-  SPEC_PR_CREATED: 'spec.pr_created',
-} as const;
-
-export type KafkaTopic = typeof TOPICS[keyof typeof TOPICS];
+export { TOPICS, deadLetterTopic } from './eventBus';
+export type { KafkaTopic } from './eventBus';
 
 // ── Client Factory ─────────────────────────────────────────────
 function createKafkaClient(): Kafka {
   const brokers = (process.env.KAFKA_BROKERS ?? 'localhost:9092').split(',');
 
   return new Kafka({
-    clientId: 'assure-code-api-gateway',
+    clientId: EVENT_SOURCE,
     brokers,
     logLevel: process.env.NODE_ENV === 'production' ? logLevel.WARN : logLevel.INFO,
     retry: {
@@ -51,6 +62,7 @@ function createKafkaClient(): Kafka {
 let _kafka: Kafka | null = null;
 let _producer: Producer | null = null;
 const _consumers: Map<string, Consumer> = new Map();
+const _processedEvents = new SupabaseProcessedEventStore();
 
 function getKafka(): Kafka {
   if (!_kafka) _kafka = createKafkaClient();
@@ -73,31 +85,27 @@ export async function getProducer(): Promise<Producer> {
 
 /**
  * Publish an event to a Kafka topic.
- * All events are JSON serialized with standard envelope.
+ * The payload is validated against the topic's current schema
+ * and sent with the versioned _meta envelope.
  */
-export async function publishEvent<T extends object>(
-  topic: KafkaTopic,
-  payload: T,
+export async function publishEvent<K extends KafkaTopic>(
+  topic: K,
+  payload: KafkaEventMap[K],
   key?: string,
 ): Promise<void> {
+  const envelope = encodeEvent(topic, payload); // Throws EventSchemaError before anything is sent
   const producer = await getProducer();
 
-  const envelope = {
-    ...payload,
-    _meta: {
-      topic,
-      publishedAt: new Date().toISOString(),
-      source: 'assure-code-api-gateway',
-    },
-  };
-
   await producer.send({
     topic,
     messages: [
       {
         key: key ?? null,
         value: JSON.stringify(envelope),
-        headers: { 'content-type': 'application/json' },
+        headers: {
+          'content-type': 'application/json',
+          'x-schema-version': String(envelope._meta.schemaVersion),
+        },
       },
     ],
   });
@@ -107,19 +115,16 @@ export async function publishEvent<T extends object>(
 
 // ── Consumer ───────────────────────────────────────────────────
 
-export type MessageHandler<T = any> = (
-  payload: T,
-  rawMessage: EachMessagePayload,
-) => Promise<void>;
-
 /**
  * Create and start a Kafka consumer for a set of topics.
  * Each consumer group gets its own independent offset tracking.
+ * Handlers receive events already upcast to the current schema,
+ * at most once per eventId per group.
  */
 export async function createConsumer(
   groupId: string,
   topics: KafkaTopic[],
-  handlers: Partial<Record<KafkaTopic, MessageHandler>>,
+  handlers: MessageHandlers,
 ): Promise<Consumer> {
   if (_consumers.has(groupId)) {
     console.warn(`[Kafka] Consumer group ${groupId} already registered.`);
@@ -137,31 +142,26 @@ export async function createConsumer(
 
   await consumer.run({
     autoCommit: true,
-    eachMessage: async (messagePayload) => {
-      const { topic, message } = messagePayload;
-
+    eachMessage: async ({ topic, partition, message, heartbeat }) => {
       if (!message.value) return;
 
-      let parsed: any;
-      try {
-        parsed = JSON.parse(message.value.toString());
-      } catch (err) {
-        console.error(`[Kafka] Failed to parse message on ${topic}:`, err);
-        return;
-      }
-
-      const handler = handlers[topic as KafkaTopic];
-      if (!handler) {
-        console.warn(`[Kafka] No handler registered for topic: ${topic}`);
-        return;
-      }
-
-      try {
-        await handler(parsed, messagePayload);
-      } catch (err: any) {
-        // Log but don't crash the consumer — dead letter handling TBD
-        console.error(`[Kafka] Handler error on ${topic}: ${err.message}`);
-      }
+      const busMessage: BusMessage = {
+        topic: topic as KafkaTopic,
+        partition,
+        offset: message.offset,
+        key: message.key?.toString() ?? null,
+        value: message.value.toString(),
+        headers: headersToStrings(message.headers),
+        timestamp: message.timestamp,
+      };
+
+      // If dead-lettering throws, the offset isn't committed and the message is redelivered
+      await deliverMessage(busMessage, handlers, {
+        groupId,
+        heartbeat,
+        deadLetter: sendToDeadLetter,
+        processedEvents: _processedEvents,
+      });
     },
   });
 
@@ -171,6 +171,198 @@ export async function createConsumer(
   return consumer;
 }
 
+// ── Dead Letters ───────────────────────────────────────────────
+
+export interface DeadLetterReplayOptions {
+  consumerGroup?: string;       // Only replay messages that failed in this group
+  limit?: number;               // Stop after this many replays
+}
+
+export interface DeadLetterReplayResult {
+  topic: KafkaTopic;
+  replayed: number;
+  skipped: number;
+}
+
+// Offsets for the replay tool — each dead letter is replayed at most
+// once per replay group. A --group replay tracks its own offsets, so
+// records it skips stay pending for replays of the other groups.
+const REPLAY_CONSUMER_GROUP = 'assure-dlq-replay-group';
+
+function replayGroupId(consumerGroup?: string): string {
+  return consumerGroup ? `${REPLAY_CONSUMER_GROUP}.${consumerGroup}` : REPLAY_CONSUMER_GROUP;
+}
+
+async function sendToDeadLetter(record: DeadLetterRecord): Promise<void> {
+  const { originalTopic: topic, originalPartition: partition, originalOffset: offset, consumerGroup, attempts } = record;
+  const dlqTopic = deadLetterTopic(topic);
+  const producer = await getProducer();
+
+  await producer.send({
+    topic: dlqTopic,
+    messages: [
+      {
+        key: record.originalKey,
+        value: JSON.stringify(record),
+        headers: {
+          'content-type': 'application/json',
+          'x-dlq-original-topic': topic,
+          'x-dlq-consumer-group': consumerGroup,
+          'x-dlq-attempts': String(attempts),
+        },
+      },
+    ],
+  });
+
+  console.error(
+    `[Kafka] Dead-lettered ${topic}[${partition}]@${offset} → ${dlqTopic} ` +
+    `(group: ${consumerGroup}, attempts: ${attempts})`,
+  );
+}
+
+/**
+ * Re-publish dead-lettered messages to their source topic,
+ * typically after the handler bug that failed them is fixed.
+ *
+ * Reads <topic>.dlq up to its current end, then stops. Each
+ * replayed message carries the group that failed it
+ * (REPLAY_TARGET_GROUP_HEADER); every other group on the source
+ * topic skips it. Full and per-group replays keep separate
+ * offsets, so mixing them on one topic can replay a record twice
+ * to its group.
+ */
+export async function replayDeadLetters(
+  topic: KafkaTopic,
+  options: DeadLetterReplayOptions = {},
+): Promise<DeadLetterReplayResult> {
+  const dlqTopic = deadLetterTopic(topic);
+  const result: DeadLetterReplayResult = { topic, replayed: 0, skipped: 0 };
+  const groupId = replayGroupId(options.consumerGroup);
+
+  // Work out where the replay group stands vs. the end of each partition
+  const admin = getKafka().admin();
+  await admin.connect();
+
+  let remaining: Map<number, number>;
+  try {
+    const ends = await admin.fetchTopicOffsets(dlqTopic);
+    const [committed] = await admin.fetchOffsets({ groupId, topics: [dlqTopic] });
+    const committedByPartition = new Map(
+      (committed?.partitions ?? []).map(p => [p.partition, Number(p.offset)]),
+    );
+
+    remaining = new Map();
+    for (const { partition, high, low } of ends) {
+      const committedOffset = committedByPartition.get(partition) ?? -1;
+      const start = committedOffset >= 0 ? committedOffset : Number(low);
+      if (start < Number(high)) remaining.set(partition, Number(high));
+    }
+  } finally {
+    await admin.disconnect();
+  }
+
+  if (remaining.size === 0) {
+    console.log(`[Kafka] No dead letters to replay on ${dlqTopic}.`);
+    return result;
+  }
+
+  const limit = options.limit ?? Infinity;
+  const producer = await getProducer();
+  const consumer = getKafka().consumer({ groupId });
+
+  await consumer.connect();
+  await consumer.subscribe({ topics: [dlqTopic], fromBeginning: true });
+
+  await new Promise<void>((resolve, reject) => {
+    consumer
+      .run({
+        autoCommit: false,
+        eachMessage: async ({ partition, message }) => {
+          const end = remaining.get(partition);
+          if (end === undefined || Number(message.offset) >= end || result.replayed >= limit) {
+            return;
+          }
+
+          const record = parseDeadLetter(message.value?.toString());
+
+          if (record && (!options.consumerGroup || record.consumerGroup === options.consumerGroup)) {
+            await producer.send({
+              topic: record.originalTopic,
+              messages: [
+                {
+                  key: record.originalKey,
+                  value: record.payload,
+                  headers: {
+                    ...record.originalHeaders,
+                    [REPLAY_TARGET_GROUP_HEADER]: record.consumerGroup,
+                    'x-dlq-replayed-from': `${dlqTopic}[${partition}]@${message.offset}`,
+                    'x-dlq-replayed-at': new Date().toISOString(),
+                  },
+                },
+              ],
+            });
+            result.replayed++;
+          } else {
+            result.skipped++;
+          }
+
+          const next = Number(message.offset) + 1;
+          await consumer.commitOffsets([{ topic: dlqTopic, partition, offset: next.toString() }]);
+
+          if (next >= end) remaining.delete(partition);
+          if (remaining.size === 0 || result.replayed >= limit) resolve();
+        },
+      })
+      .catch(reject);
+  });
+
+  await consumer.disconnect();
+
+  console.log(
+    `[Kafka] Replayed ${result.replayed} dead letter(s) from ${dlqTopic} → ${topic}` +
+    (result.skipped > 0 ? ` (${result.skipped} skipped)` : ''),
+  );
+
+  return result;
+}
+
+function parseDeadLetter(raw: string | undefined): DeadLetterRecord | null {
+  if (!raw) return null;
+  try {
+    const record = JSON.parse(raw) as DeadLetterRecord;
+    return typeof record.originalTopic === 'string' && typeof record.payload === 'string' ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+function headersToStrings(headers: IHeaders | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value === undefined) continue;
+    out[name] = Array.isArray(value) ? value.map(v => v.toString()).join(',') : value.toString();
+  }
+  return out;
+}
+
+// ── EventBus Adapter ──────────────────────────────────────────
+
+export class KafkaEventBus implements EventBus {
+  readonly name = 'kafka';
+
+  async publish<K extends KafkaTopic>(topic: K, payload: KafkaEventMap[K], key?: string): Promise<void> {
+    await publishEvent(topic, payload, key);
+  }
+
+  async subscribe(groupId: string, topics: KafkaTopic[], handlers: MessageHandlers): Promise<void> {
+    await createConsumer(groupId, topics, handlers);
+  }
+
+  async disconnect(): Promise<void> {
+    await disconnectAll();
+  }
+}
+
 // ── Graceful Shutdown ──────────────────────────────────────────
 
 export async function disconnectAll(): Promise<void> {
@@ -184,6 +376,3 @@ export async function disconnectAll(): Promise<void> {
   }
   _consumers.clear();
 }
-
-process.on('SIGTERM', disconnectAll);
-process.on('SIGINT', disconnectAll);
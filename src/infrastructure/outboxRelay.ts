@@ -0,0 +1,191 @@
+// ============================================================
+// ASSURE CODE — Transactional Outbox
+// Writers never publish directly. They insert their events
+// into `event_outbox` in the same database transaction as the
+// data the events describe; this relay publishes them after.
+//
+// Table event_outbox:
+//   id (uuid = eventId) | topic | message_key | payload (jsonb)
+//   status: pending → published | failed
+//   attempts | last_error | locked_until | created_at | published_at
+//
+// RPC claim_outbox_events(p_batch_size, p_lease_seconds):
+//   Locks the oldest pending rows (FOR UPDATE SKIP LOCKED) whose
+//   lease is free, stamps locked_until = now() + lease and
+//   returns them oldest first. Concurrent relays never claim the
+//   same row, so each row is sent by exactly one relay.
+//
+// A relay that dies after sending but before marking a row
+// published will have it re-sent once the lease expires. The
+// event keeps its eventId, and consumers skip eventIds their
+// group has already handled (ProcessedEventStore, eventBus.ts).
+// ============================================================
+
+import { createClient } from '@supabase/supabase-js';
+import { KafkaTopic } from './eventBus';
+import { encodeEvent, KafkaEventMap } from './eventSchemas';
+import { getEventBus } from './eventBusRegistry';
+
+const POLL_INTERVAL_MS = Number(process.env.OUTBOX_POLL_INTERVAL_MS ?? 1000);
+const BATCH_SIZE = 100;
+const LEASE_SECONDS = 60;
+const MAX_ATTEMPTS = 10;
+
+// One row shape per topic, so a row's payload always matches its topic
+export type OutboxRow<K extends KafkaTopic = KafkaTopic> = {
+  [T in K]: {
+    id: string;
+    topic: T;
+    message_key: string | null;
+    payload: KafkaEventMap[T];
+  };
+}[K];
+
+type ClaimedOutboxRow = OutboxRow & { attempts: number };
+
+function getSupabase() {
+  return createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  );
+}
+
+/**
+ * Build an outbox row for an event. Validates against the topic's
+ * schema now, so a bad event fails the write instead of the relay.
+ */
+export function toOutboxRow<K extends KafkaTopic>(
+  topic: K,
+  payload: KafkaEventMap[K] & { eventId: string },
+  key?: string,
+): OutboxRow<K> {
+  encodeEvent(topic, payload); // Throws EventSchemaError
+
+  return {
+    id: payload.eventId,
+    topic,
+    message_key: key ?? null,
+    payload,
+  } as OutboxRow<K>;
+}
+
+// ── Relay ──────────────────────────────────────────────────────
+
+let _timer: NodeJS.Timeout | null = null;
+let _running = false;
+
+/**
+ * Publish one batch of pending outbox rows.
+ * Returns how many were published.
+ */
+export async function relayOutboxBatch(): Promise<number> {
+  const supabase = getSupabase();
+
+  const { data: rows, error } = await supabase.rpc('claim_outbox_events', {
+    p_batch_size: BATCH_SIZE,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`[Outbox] Failed to claim events: ${error.message}`);
+  }
+
+  const claimed = (rows ?? []) as ClaimedOutboxRow[];
+  let published = 0;
+
+  for (const row of claimed) {
+    try {
+      await getEventBus().publish(row.topic, row.payload, row.message_key ?? undefined);
+    } catch (err: any) {
+      const attempts = row.attempts + 1;
+      const failed = attempts >= MAX_ATTEMPTS;
+
+      await supabase
+        .from('event_outbox')
+        .update({
+          attempts,
+          last_error: err.message,
+          locked_until: null,
+          ...(failed ? { status: 'failed' } : {}),
+        })
+        .eq('id', row.id);
+
+      console.error(
+        `[Outbox] Publish failed for ${row.topic} event ${row.id} (attempt ${attempts}/${MAX_ATTEMPTS}): ${err.message}` +
+        (failed ? ' — marked failed.' : ''),
+      );
+
+      // Later rows may share this row's key — stop so they can't overtake it
+      break;
+    }
+
+    const { error: markError } = await supabase
+      .from('event_outbox')
+      .update({ status: 'published', published_at: new Date().toISOString(), locked_until: null })
+      .eq('id', row.id);
+
+    if (markError) {
+      // Sent but not marked: it will be re-sent when the lease expires
+      console.error(`[Outbox] Published ${row.id} but failed to mark it: ${markError.message}`);
+      break;
+    }
+
+    published++;
+  }
+
+  // Release the rows this batch didn't get to
+  const unprocessed = claimed.slice(published + 1).map(r => r.id);
+  if (unprocessed.length > 0) {
+    await supabase.from('event_outbox').update({ locked_until: null }).in('id', unprocessed);
+  }
+
+  if (published > 0) {
+    console.log(`[Outbox] Published ${published} event(s).`);
+  }
+
+  return published;
+}
+
+/**
+ * Start polling the outbox. Drains full batches back to back,
+ * then waits POLL_INTERVAL_MS between polls.
+ */
+export function startOutboxRelay(): void {
+  if (_running) return;
+  _running = true;
+
+  const tick = async () => {
+    let published = 0;
+    try {
+      published = await relayOutboxBatch();
+    } catch (err: any) {
+      console.error(err.message);
+    }
+
+    if (!_running) return;
+    _timer = setTimeout(tick, published === BATCH_SIZE ? 0 : POLL_INTERVAL_MS);
+  };
+
+  console.log(`[Outbox] Relay started (poll every ${POLL_INTERVAL_MS}ms).`);
+  void tick();
+}
+
+export function stopOutboxRelay(): void {
+  _running = false;
+  if (_timer) clearTimeout(_timer);
+  _timer = null;
+}
+
+// ============================================================
+// CLI RUNNER — node -r ts-node/register src/infrastructure/outboxRelay.ts
+// ============================================================
+if (require.main === module) {
+  startOutboxRelay();
+
+  const shutdown = () => {
+    stopOutboxRelay();
+    getEventBus().disconnect().finally(() => process.exit(0));
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
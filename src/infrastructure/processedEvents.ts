@@ -0,0 +1,69 @@
+// ============================================================
+// ASSURE CODE — Processed Events
+// Consumer-side idempotency for the Kafka bus. The outbox and
+// Kafka both deliver at least once; every event carries an
+// eventId, and a group skips eventIds it has already handled.
+//
+// Table processed_events:
+//   consumer_group | event_id | processed_at
+//   primary key (consumer_group, event_id)
+//
+// A row is written only after the handler succeeds, so a
+// failed or dead-lettered event is still handled on replay.
+// ============================================================
+
+import { createClient } from '@supabase/supabase-js';
+import { ProcessedEventStore } from './eventBus';
+
+function getSupabase() {
+  return createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  );
+}
+
+export class SupabaseProcessedEventStore implements ProcessedEventStore {
+  async has(groupId: string, eventId: string): Promise<boolean> {
+    const { data, error } = await getSupabase()
+      .from('processed_events')
+      .select('event_id')
+      .eq('consumer_group', groupId)
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`[ProcessedEvents] Lookup failed for ${eventId}: ${error.message}`);
+    }
+
+    return !!data;
+  }
+
+  async add(groupId: string, eventId: string): Promise<void> {
+    const { error } = await getSupabase()
+      .from('processed_events')
+      .upsert(
+        { consumer_group: groupId, event_id: eventId, processed_at: new Date().toISOString() },
+        { onConflict: 'consumer_group,event_id', ignoreDuplicates: true },
+      );
+
+    if (error) {
+      throw new Error(`[ProcessedEvents] Failed to record ${eventId}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Keeps handled eventIds for as long as the process lives.
+ * For the in-memory bus, where nothing outlives the process anyway.
+ */
+export class InMemoryProcessedEventStore implements ProcessedEventStore {
+  private readonly seen = new Set<string>();
+
+  async has(groupId: string, eventId: string): Promise<boolean> {
+    return this.seen.has(`${groupId}:${eventId}`);
+  }
+
+  async add(groupId: string, eventId: string): Promise<void> {
+    this.seen.add(`${groupId}:${eventId}`);
+  }
+}
@@ -3,13 +3,14 @@
 // Listens on Kafka for "regulation.new" events published by
 // the scraper service. Fans out to per-spec patch jobs via
 // BullMQ after determining which workspaces are affected.
+// Every candidate's assessment is recorded first, patched or not.
 // ============================================================
 
-import { createConsumer, publishEvent, TOPICS } from './kafka.client';
+import { createConsumer, publishEvent } from './eventBusRegistry';
+import { TOPICS } from './eventBus';
 import { RegulationNewEvent, SpecUpdatedEvent } from '../types';
-import { findAffectedSpecs } from '../scanner/impactAnalyzer';
-import { enqueueSpecPatchJob } from '../queue/specPatchQueue';
-import { v4 as uuidv4 } from 'uuid';
+import { assessRegulationImpact, recordImpactAssessments } from '../scanner/impactAnalyzer';
+import { enqueueSpecPatchJob, specPatchJobId } from '../queue/specPatchQueue';
 
 const CONSUMER_GROUP = 'assure-regulation-impact-group';
 
@@ -42,15 +43,22 @@ async function handleRegulationNew(event: RegulationNewEvent): Promise<void> {
     `(jurisdiction: ${regulation.jurisdiction}, severity: ${regulation.severity})`,
   );
 
-  // 1. Find all active specs in workspaces that use this framework + jurisdiction
-  const affectedSpecs = await findAffectedSpecs(
+  // 1. Assess all active specs in workspaces that use this framework + jurisdiction
+  const assessments = await assessRegulationImpact(
     regulation.framework,
     regulation.jurisdiction,
+    regulation.content,
   );
 
+  // Recorded before any job is enqueued — a failure here retries the event, not the patches
+  await recordImpactAssessments(regulation, assessments);
+
+  const affectedSpecs = assessments.filter(a => a.affected);
+
   if (affectedSpecs.length === 0) {
     console.log(
-      `[RegulationConsumer] No active specs found for ${regulation.framework} / ${regulation.jurisdiction}. Skipping.`,
+      `[RegulationConsumer] No specs affected by ${regulation.framework} ${regulation.article} ` +
+      `(${assessments.length} candidate(s) for ${regulation.framework} / ${regulation.jurisdiction}). Skipping.`,
     );
     return;
   }
@@ -60,9 +68,10 @@ async function handleRegulationNew(event: RegulationNewEvent): Promise<void> {
   );
 
   // 2. Enqueue a BullMQ patch job for each affected spec
-  //    Each job runs independently — one spec failure doesn't block others
+  //    Each job runs independently — one spec's patch failure doesn't block others
   const jobPromises = affectedSpecs.map(async (spec) => {
-    const jobId = uuidv4();
+    // Same event, same spec, same job — a redelivered event is a no-op
+    const jobId = specPatchJobId(event.eventId, spec.specId);
 
     await enqueueSpecPatchJob({
       jobId,
@@ -77,6 +86,8 @@ async function handleRegulationNew(event: RegulationNewEvent): Promise<void> {
         jurisdiction: regulation.jurisdiction,
         severity: regulation.severity as any,
       },
+      moduleScores: spec.moduleScores,
+      semanticThreshold: spec.threshold ?? undefined,
     });
 
     console.log(
@@ -84,7 +95,9 @@ async function handleRegulationNew(event: RegulationNewEvent): Promise<void> {
     );
   });
 
-  await Promise.allSettled(jobPromises);
+  // A failed enqueue fails the handler, so the event is retried and
+  // eventually dead-lettered instead of recorded as handled
+  await Promise.all(jobPromises);
 
   console.log(
     `[RegulationConsumer] All patch jobs enqueued for ${regulation.framework} ${regulation.article}.`,
@@ -0,0 +1,41 @@
+// ============================================================
+// ASSURE CODE — Spec Embedding Consumer
+// Listens for "spec.updated" and stores the new version's
+// embedding, so impact analysis finds it without embedding
+// anything at regulation time.
+// Only main-line versions publish it — drafts are embedded when
+// approved, branches never. First versions publish nothing
+// (no spec.created producer exists), so they are embedded by the
+// backfill the first time a regulation run considers them.
+// ============================================================
+
+import { createConsumer } from './eventBusRegistry';
+import { TOPICS } from './eventBus';
+import { SpecUpdatedEvent } from '../types';
+import { refreshSpecEmbedding } from '../ai-engine/specEmbeddings';
+
+const CONSUMER_GROUP = 'assure-spec-embedding-group';
+
+/**
+ * Start the spec embedding consumer.
+ * Called once at application startup.
+ */
+export async function startSpecEmbeddingConsumer(): Promise<void> {
+  console.log('[SpecEmbeddingConsumer] Starting...');
+
+  await createConsumer(
+    CONSUMER_GROUP,
+    [TOPICS.SPEC_UPDATED],
+    {
+      [TOPICS.SPEC_UPDATED]: handleSpecUpdated,
+    },
+  );
+
+  console.log('[SpecEmbeddingConsumer] Ready — embedding new spec versions.');
+}
+
+// ── Handlers ───────────────────────────────────────────────────
+
+async function handleSpecUpdated(event: SpecUpdatedEvent): Promise<void> {
+  await refreshSpecEmbedding(event.newVersionId);
+}
@@ -42,6 +42,7 @@ async function bootstrap() {
       .addTag('auth', 'Authentication & token management')
       .addTag('workspaces', 'Workspace & team management')
       .addTag('compliance', 'Compliance pipeline & reports')
+      .addTag('specs', 'Spec versions, history & clause diffs')
       .addTag('billing', 'Subscription & billing management')
       .build();
 
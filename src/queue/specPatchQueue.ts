@@ -0,0 +1,205 @@
+// ============================================================
+// ASSURE CODE — Spec Patch Queue
+// One job per (regulation, spec) pair, enqueued by the
+// regulation consumer. The worker runs patchSpec().
+//
+// Patches are serialized per workspace: a job only runs while
+// holding its workspace's lock, so two regulations can never
+// patch the same parent version at the same time. A job that
+// finds the lock taken waits for it in place, polling with
+// backoff — no new job is added, so a short wait never counts
+// against the rate limiter. A job still waiting after
+// LOCK_WAIT_MAX_MS is handed back to the queue as a delayed
+// job, which re-acquires the lock later; a patch is never
+// dropped for waiting. Only after MAX_LOCK_REQUEUES hand-backs
+// (far longer than the lock TTL) does it fail, and then through
+// Bull's normal attempts and backoff.
+// ============================================================
+
+import Bull, { Queue, Job } from 'bull';
+import { patchSpec, PatchSpecInput } from '../compliance/spec-patcher.service';
+import { SpecPatchResult } from '../types';
+
+const SPEC_PATCH_QUEUE_NAME = 'spec-patch';
+const CONCURRENCY = Number(process.env.SPEC_PATCH_CONCURRENCY ?? 3);
+
+// A patch makes 1 + N model calls (N = affected modules)
+// Stay well under provider rate limits across all workers
+const RATE_LIMIT_MAX_JOBS = Number(process.env.SPEC_PATCH_RATE_LIMIT ?? 10);
+const RATE_LIMIT_DURATION_MS = 60_000;
+
+// Longer than any patch should take — the lock can't outlive a crashed worker by much
+const WORKSPACE_LOCK_TTL_MS = 15 * 60_000;
+
+// Lock polling: ~1s, 2s, 4s … capped at 15s between tries.
+// The wait plus the patch must fit in the 10-minute job timeout.
+const LOCK_WAIT_BASE_DELAY_MS = 1_000;
+const LOCK_WAIT_MAX_DELAY_MS = 15_000;
+const LOCK_WAIT_MAX_MS = 3 * 60_000;
+const LOCK_REQUEUE_DELAY_MS = 30_000;
+const MAX_LOCK_REQUEUES = 10;
+
+export interface SpecPatchJobData extends PatchSpecInput {
+  jobId: string;
+  lockRequeues?: number;   // Times this patch was handed back to the queue to wait for its lock
+}
+
+export interface SpecPatchQueueStats {
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+}
+
+let _queue: Queue<SpecPatchJobData> | null = null;
+
+// Delete the lock only if we still own it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+function getSpecPatchQueue(): Queue<SpecPatchJobData> {
+  if (!_queue) {
+    _queue = new Bull<SpecPatchJobData>(SPEC_PATCH_QUEUE_NAME, {
+      redis: {
+        host: process.env.REDIS_HOST ?? 'localhost',
+        port: parseInt(process.env.REDIS_PORT ?? '6379'),
+        password: process.env.REDIS_PASSWORD || undefined,
+      },
+      limiter: {
+        max: RATE_LIMIT_MAX_JOBS,
+        duration: RATE_LIMIT_DURATION_MS,
+      },
+      defaultJobOptions: {
+        attempts: 4,
+        // LLM rate-limit windows are a minute — back off past them
+        backoff: { type: 'exponential', delay: 30000 },
+        timeout: 10 * 60_000,
+        removeOnComplete: 200,
+        removeOnFail: 500,
+      },
+    });
+
+    _queue.process(SPEC_PATCH_QUEUE_NAME, CONCURRENCY, processSpecPatchJob);
+
+    _queue.on('failed', (job, err) => {
+      console.error(
+        `[SpecPatchWorker] ❌ Patch job ${job.id} failed (attempt ${job.attemptsMade}/${job.opts.attempts}): ${err.message}`,
+      );
+    });
+
+    console.log(`[SpecPatchWorker] Patch queue worker started (concurrency: ${CONCURRENCY}).`);
+  }
+
+  return _queue;
+}
+
+/**
+ * Enqueue a spec patch. The jobId doubles as the Bull job ID,
+ * so enqueuing the same patch twice is a no-op while Bull still
+ * keeps the first job — callers derive it from the event and
+ * spec (specPatchJobId) so a redelivered event doesn't patch twice.
+ */
+export function specPatchJobId(eventId: string, specVersionId: string): string {
+  return `${eventId}:${specVersionId}`;
+}
+
+export async function enqueueSpecPatchJob(data: SpecPatchJobData): Promise<void> {
+  await getSpecPatchQueue().add(SPEC_PATCH_QUEUE_NAME, data, { jobId: data.jobId });
+}
+
+export async function getQueueStats(): Promise<SpecPatchQueueStats> {
+  const counts = await getSpecPatchQueue().getJobCounts();
+  return {
+    waiting: counts.waiting,
+    active: counts.active,
+    delayed: counts.delayed,
+    completed: counts.completed,
+    failed: counts.failed,
+  };
+}
+
+// ── Worker ─────────────────────────────────────────────────────
+
+async function processSpecPatchJob(
+  job: Job<SpecPatchJobData>,
+): Promise<SpecPatchResult | { requeued: true }> {
+  const { jobId, workspaceId, specVersionId, regulation, moduleScores, semanticThreshold } = job.data;
+  const queue = getSpecPatchQueue();
+  const lockKey = `${SPEC_PATCH_QUEUE_NAME}:lock:workspace:${workspaceId}`;
+  const lockToken = String(job.id);
+
+  const waitStartedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    const acquired = await queue.client.set(lockKey, lockToken, 'PX', WORKSPACE_LOCK_TTL_MS, 'NX');
+    if (acquired) break;
+
+    const waited = Date.now() - waitStartedAt;
+    if (waited >= LOCK_WAIT_MAX_MS) {
+      const lockRequeues = (job.data.lockRequeues ?? 0) + 1;
+
+      if (lockRequeues > MAX_LOCK_REQUEUES) {
+        console.error(
+          `[SpecPatchWorker] Job ${jobId} could not get the workspace ${workspaceId} lock ` +
+          `after ${MAX_LOCK_REQUEUES} requeues. Failing the attempt.`,
+        );
+        throw new Error(`[SpecPatchWorker] Workspace ${workspaceId} stayed locked across ${MAX_LOCK_REQUEUES} requeues.`);
+      }
+
+      // Free the worker slot; the patch itself is kept
+      await queue.add(
+        SPEC_PATCH_QUEUE_NAME,
+        { ...job.data, lockRequeues },
+        { jobId: `${jobId}:wait:${lockRequeues}`, delay: LOCK_REQUEUE_DELAY_MS },
+      );
+
+      console.warn(
+        `[SpecPatchWorker] Job ${jobId} waited ${Math.round(waited / 1000)}s for the workspace ${workspaceId} lock. ` +
+        `Requeued (${lockRequeues}/${MAX_LOCK_REQUEUES}).`,
+      );
+
+      return { requeued: true };
+    }
+
+    const delay = Math.min(lockWaitDelay(attempt), LOCK_WAIT_MAX_MS - waited);
+    if (attempt === 1) {
+      console.log(`[SpecPatchWorker] Workspace ${workspaceId} is being patched. Job ${jobId} waiting for the lock.`);
+    }
+    await sleep(delay);
+  }
+
+  try {
+    console.log(
+      `[SpecPatchWorker] Patching spec ${specVersionId} (workspace: ${workspaceId}) ` +
+      `for ${regulation.framework} ${regulation.article}`,
+    );
+
+    const result = await patchSpec({ specVersionId, workspaceId, regulation, moduleScores, semanticThreshold });
+
+    console.log(
+      `[SpecPatchWorker] ✅ Job ${jobId} done: ${result.diffs.length} diff(s)` +
+      (result.conflicts?.length ? `, ${result.conflicts.length} conflict(s)` : ''),
+    );
+
+    return result;
+  } finally {
+    await queue.client
+      .eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockToken)
+      .catch(err => console.error(`[SpecPatchWorker] Failed to release lock ${lockKey}: ${err.message}`));
+  }
+}
+
+// Exponential backoff with jitter, so waiting jobs don't retry in lockstep
+function lockWaitDelay(attempt: number): number {
+  const base = Math.min(LOCK_WAIT_BASE_DELAY_MS * 2 ** (attempt - 1), LOCK_WAIT_MAX_DELAY_MS);
+  return Math.round(base / 2 + Math.random() * (base / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,147 @@
+// ============================================================
+// ASSURE CODE — Citation Verifier
+// Every prompt tells the model to cite only regulations from
+// the regulatory_context. This checks that it did: each entry
+// in a regulationsCited / regulationsApplied array must match
+// a retrieved regulation by framework + article. Anything else
+// is a hallucinated citation and becomes a scan finding.
+// ============================================================
+
+import {
+  RetrievedRegulation,
+  ScanFinding,
+  CitationVerificationResult,
+  HallucinatedCitation,
+} from '../types';
+
+// Arrays holding citations, in both the draft and the 5 modules
+const CITATION_KEYS = new Set(['regulationsCited', 'regulationsApplied']);
+
+// Entries the prompts explicitly allow when no regulation applies
+const NON_CITATION_PATTERN = /best practice|no direct regulatory requirement/i;
+
+/**
+ * Verify every citation in a draft or spec (any JSON document)
+ * against the regulations that were in the model's context.
+ * `acceptedCitations` are taken as known too — e.g. a patched
+ * spec may keep citing what its parent version already cited.
+ */
+export function verifyCitations(
+  document: unknown,
+  regulations: Pick<RetrievedRegulation, 'framework' | 'article'>[],
+  acceptedCitations: string[] = [],
+): CitationVerificationResult {
+  const known = new Set([
+    ...regulations.map(r => normalizeCitation(`${r.framework} ${r.article}`)),
+    ...acceptedCitations.map(normalizeCitation),
+  ]);
+  const hallucinated: HallucinatedCitation[] = [];
+  let checked = 0;
+
+  for (const { citation, path } of collectCitations(document)) {
+    if (NON_CITATION_PATTERN.test(citation)) continue;
+    checked++;
+
+    if (!matchesKnownRegulation(citation, known)) {
+      hallucinated.push({ citation, path });
+    }
+  }
+
+  return {
+    checked,
+    verified: checked - hallucinated.length,
+    hallucinated,
+  };
+}
+
+/**
+ * Turn hallucinated citations into scan findings — one per
+ * distinct citation, listing every place it appears.
+ */
+export function citationFindings(result: CitationVerificationResult): ScanFinding[] {
+  const byCitation = new Map<string, string[]>();
+  for (const h of result.hallucinated) {
+    const paths = byCitation.get(h.citation) ?? [];
+    paths.push(h.path);
+    byCitation.set(h.citation, paths);
+  }
+
+  return [...byCitation.entries()].map(([citation, paths]) => ({
+    issue: `Cites "${citation}", which is not in the retrieved regulatory context`,
+    regulation: citation,
+    gap: `The citation cannot be traced to any retrieved regulation. Cited at: ${paths.slice(0, 5).join(', ')}${paths.length > 5 ? ` (+${paths.length - 5} more)` : ''}`,
+    remediation: 'Replace with a regulation from the regulatory context, or mark the decision as industry best practice.',
+    riskLevel: 'high',
+    affectedSection: paths[0].split(/[.[]/)[0],
+    source: 'citation_verifier',
+  }));
+}
+
+// ── Citation Matching ──────────────────────────────────────────
+
+/**
+ * A citation matches if it names a retrieved regulation exactly, or a
+ * sub-clause of one: "GDPR Article 5(1)(f)" is covered by "GDPR Article 5".
+ */
+function matchesKnownRegulation(citation: string, known: Set<string>): boolean {
+  let candidate = citation.replace(/^[\s[]+|[\s\]]+$/g, '');
+
+  while (true) {
+    if (known.has(normalizeCitation(candidate))) return true;
+    const trimmed = candidate.replace(/\s*\([^()]*\)\s*$/, '');
+    if (trimmed === candidate) return false;
+    candidate = trimmed;
+  }
+}
+
+/**
+ * "[GDPR Article 32]", "GDPR Art. 32" → "GDPR32"
+ * "SOC 2 CC6.1", "SOC2 CC6.1"        → "SOC2CC61"
+ * "GDPR Article 5(1)"                → "GDPR5_1" (never "GDPR51" — that's Article 51)
+ */
+function normalizeCitation(citation: string): string {
+  return citation
+    .toUpperCase()
+    .replace(/\(\s*([A-Z0-9]+)\s*\)/g, '_$1')   // Sub-clauses keep their boundary
+    .replace(/\b(ARTICLE|ART\.?|SECTION|SEC\.?)(?=[\s\d])/g, '')
+    .replace(/§/g, '')
+    .replace(/[^A-Z0-9_]/g, '');
+}
+
+/**
+ * Every citation a document makes, as written.
+ */
+export function listCitations(document: unknown): string[] {
+  return collectCitations(document).map(c => c.citation);
+}
+
+// ── Document Walk ──────────────────────────────────────────────
+
+function collectCitations(
+  node: unknown,
+  path = '',
+  out: Array<{ citation: string; path: string }> = [],
+): Array<{ citation: string; path: string }> {
+  if (Array.isArray(node)) {
+    node.forEach((item, i) => collectCitations(item, `${path}[${i}]`, out));
+    return out;
+  }
+
+  if (node === null || typeof node !== 'object') return out;
+
+  for (const [key, value] of Object.entries(node)) {
+    const childPath = path ? `${path}.${key}` : key;
+
+    if (CITATION_KEYS.has(key) && Array.isArray(value)) {
+      value.forEach((citation, i) => {
+        if (typeof citation === 'string' && citation.trim()) {
+          out.push({ citation: citation.trim(), path: `${childPath}[${i}]` });
+        }
+      });
+    } else {
+      collectCitations(value, childPath, out);
+    }
+  }
+
+  return out;
+}
@@ -1,14 +1,14 @@
 // ============================================================
-// ASSURE CODE — Scanner Service (OpenAI)
+// ASSURE CODE — Scanner Service (scanner role, OpenAI by default)
 // Validates a draft spec against retrieved regulations.
 // Acts as a second opinion / adversarial reviewer.
 // Returns a score against the "Gold Standard" threshold.
 // ============================================================
 
-import OpenAI from 'openai';
 import { DraftSpecification, RetrievedRegulation, ScanResult, ScanFinding } from '../types';
-
-const SCANNER_MODEL = 'gpt-4o';
+import { generateValidated } from '../ai-engine/structuredOutput';
+import { scanResponseSchema } from '../ai-engine/outputSchemas';
+import { getLLM } from '../ai-engine/llmProvider';
 
 // The Gold Standard threshold — drafts scoring below this FAIL
 // and are not delivered to the user without human review.
@@ -17,18 +17,6 @@ export const GOLD_STANDARD_THRESHOLD = 0.80;
 // Drafts in this range trigger human review flag but still pass
 const HUMAN_REVIEW_THRESHOLD = 0.85;
 
-let _client: OpenAI | null = null;
-
-function getClient(): OpenAI {
-  if (!_client) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not set in environment variables.');
-    }
-    _client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return _client;
-}
-
 // ============================================================
 // PROMPT BUILDER
 // ============================================================
@@ -105,49 +93,33 @@ export async function scanDraft(
   draft: DraftSpecification,
   regulations: RetrievedRegulation[]
 ): Promise<ScanResult> {
-  const client = getClient();
+  const llm = getLLM('scanner');
 
   console.log(`[Scanner] Starting Gold Standard scan. Threshold: ${GOLD_STANDARD_THRESHOLD}`);
 
-  const response = await client.chat.completions.create({
-    model: SCANNER_MODEL,
-    temperature: 0.1, // Very low — we want deterministic adversarial analysis
-    response_format: { type: 'json_object' },
-    messages: [
-      {
-        role: 'system',
-        content: 'You are a hostile compliance auditor. Return only valid JSON. Be specific about every gap you find.',
-      },
-      {
-        role: 'user',
-        content: buildScanPrompt(draft, regulations),
-      },
-    ],
+  const parsed = await generateValidated({
+    label: 'Scanner',
+    prompt: buildScanPrompt(draft, regulations),
+    schema: scanResponseSchema,
+    complete: p => llm.complete({
+      system: 'You are a hostile compliance auditor. Return only valid JSON. Be specific about every gap you find.',
+      prompt: p,
+      json: true,
+      temperature: 0.1, // Very low — we want deterministic adversarial analysis
+    }),
   });
 
-  const rawContent = response.choices[0].message.content;
-  if (!rawContent) {
-    throw new Error('[Scanner] OpenAI returned an empty response.');
-  }
-
-  let parsed: any;
-  try {
-    parsed = JSON.parse(rawContent);
-  } catch {
-    throw new Error(`[Scanner] Failed to parse OpenAI response as JSON: ${rawContent.slice(0, 200)}`);
-  }
-
-  const score = typeof parsed.score === 'number' ? parsed.score : 0;
+  const score = parsed.score;
   const passed = score >= GOLD_STANDARD_THRESHOLD;
 
   const result: ScanResult = {
     passed,
     score,
     threshold: GOLD_STANDARD_THRESHOLD,
-    status: parsed.status ?? (passed ? 'compliant' : 'non_compliant'),
-    findings: (parsed.findings ?? []) as ScanFinding[],
-    executiveSummary: parsed.executiveSummary ?? '',
-    suggestedControls: parsed.suggestedControls ?? [],
+    status: parsed.status,
+    findings: parsed.findings.map((f): ScanFinding => ({ ...f, source: 'scanner' })),
+    executiveSummary: parsed.executiveSummary,
+    suggestedControls: parsed.suggestedControls,
     scannedAt: new Date().toISOString(),
   };
 
@@ -0,0 +1,680 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
+import {
+  IsUUID,
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  IsDefined,
+  IsNotEmpty,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SpecsService, MergeConflictStrategy } from './specs.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser, JwtPayload } from '../common/decorators/current-user.decorator';
+import { SpecStatus, SpecBranchStatus, ModuleKey, ClauseDiff } from '../types';
+
+// ── DTOs ─────────────────────────────────────────────────────
+
+export class SpecDiffsQueryDto {
+  @IsUUID()
+  from: string;
+
+  @IsUUID()
+  to: string;
+}
+
+export class RevertSpecDto {
+  @IsUUID()
+  targetVersionId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  openPullRequest?: boolean;
+}
+
+const MODULE_KEYS: ModuleKey[] = [
+  'master_specification',
+  'security_blueprint',
+  'cost_analysis',
+  'tech_stack_justification',
+  'code_scaffolding',
+];
+
+const SEVERITIES: ClauseDiff['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+export class ClauseEditDto {
+  @IsIn(MODULE_KEYS)
+  module: ModuleKey;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  clausePath: string;
+
+  @IsDefined()
+  after: unknown;
+
+  @IsOptional()
+  @IsString()
+  before?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  fieldLabel?: string;
+
+  @IsOptional()
+  @IsIn(SEVERITIES)
+  severity?: ClauseDiff['severity'];
+}
+
+export class EditClausesDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => ClauseEditDto)
+  edits: ClauseEditDto[];
+}
+
+export class RejectSpecDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class CommentOnDiffDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  body: string;
+}
+
+export class ReviewDiffDto {
+  @IsIn(['accepted', 'rejected'])
+  decision: 'accepted' | 'rejected';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;             // Required when rejecting
+}
+
+export class CreateBranchDto {
+  @IsString()
+  @Matches(/^[a-z0-9][a-z0-9-]*$/, {
+    message: 'Branch name must be lowercase alphanumeric with hyphens only.',
+  })
+  @MaxLength(40)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  jurisdictions?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  frameworks?: string[];
+}
+
+export class MergeBranchDto {
+  @IsOptional()
+  @IsIn(['fail', 'keep_main', 'take_branch'])
+  onConflict?: MergeConflictStrategy;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  openPullRequest?: boolean;
+}
+
+// Same shape as RegulationNewEvent.regulation
+export class PreviewRegulationDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  framework: string;
+
+  @IsString()
+  @IsNotEmpty()
+  article: string;
+
+  @IsString()
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50000)
+  content: string;
+
+  @IsString()
+  @IsNotEmpty()
+  jurisdiction: string;
+
+  @IsString()
+  severity: string;
+}
+
+export class PreviewRegulationImpactDto {
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => PreviewRegulationDto)
+  regulation: PreviewRegulationDto;
+}
+
+const BRANCH_STATUSES: SpecBranchStatus[] = ['open', 'merged'];
+
+const SPEC_STATUSES: SpecStatus[] = ['draft', 'active', 'superseded', 'archived'];
+
+// ── Controller ───────────────────────────────────────────────
+
+@ApiTags('specs')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('specs')
+export class SpecsController {
+  constructor(private readonly specsService: SpecsService) {}
+
+  /**
+   * GET /api/v1/specs
+   * List spec versions for the authenticated workspace.
+   */
+  @Get()
+  @ApiOperation({ summary: 'List spec versions for the workspace' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'status', required: false, enum: SPEC_STATUSES })
+  @ApiQuery({ name: 'branchId', required: false, description: 'List a branch instead of the main line.' })
+  async listSpecs(
+    @CurrentUser() user: JwtPayload,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('status') status?: SpecStatus,
+    @Query('branchId', new ParseUUIDPipe({ optional: true })) branchId?: string,
+  ) {
+    return this.specsService.listSpecs({
+      workspaceId: user.workspaceId,
+      page: Math.max(page, 1),
+      limit: Math.max(1, Math.min(limit, 100)),
+      status: status && SPEC_STATUSES.includes(status) ? status : undefined,
+      branchId,
+    });
+  }
+
+  /**
+   * GET /api/v1/specs/branches
+   * Branches in the workspace, newest first.
+   * Branch routes are declared before :id so "branches" isn't captured as a version ID.
+   */
+  @Get('branches')
+  @ApiOperation({ summary: 'List spec branches' })
+  @ApiQuery({ name: 'status', required: false, enum: BRANCH_STATUSES })
+  async listBranches(
+    @CurrentUser() user: JwtPayload,
+    @Query('status') status?: SpecBranchStatus,
+  ) {
+    return this.specsService.listBranches(
+      user.workspaceId,
+      status && BRANCH_STATUSES.includes(status) ? status : undefined,
+    );
+  }
+
+  /**
+   * GET /api/v1/specs/branches/:branchId
+   */
+  @Get('branches/:branchId')
+  @ApiOperation({ summary: 'Get a spec branch' })
+  @ApiResponse({ status: 404, description: 'Branch not found in this workspace.' })
+  async getBranch(
+    @Param('branchId', ParseUUIDPipe) branchId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.getBranch(branchId, user.workspaceId);
+  }
+
+  /**
+   * GET /api/v1/specs/branches/:branchId/compare
+   * The branch against the main line since the branch point.
+   */
+  @Get('branches/:branchId/compare')
+  @ApiOperation({
+    summary: 'Compare a branch with the main line',
+    description:
+      'Clause diffs each side made since the branch point, and the clauses both changed ' +
+      '(which would conflict on merge).',
+  })
+  @ApiResponse({ status: 404, description: 'Branch not found in this workspace.' })
+  async compareBranch(
+    @Param('branchId', ParseUUIDPipe) branchId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.compareBranch(branchId, user.workspaceId);
+  }
+
+  /**
+   * POST /api/v1/specs/branches/:branchId/merge
+   * Merge a branch into the main line as a new version.
+   */
+  @Post('branches/:branchId/merge')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Merge a branch into the main line',
+    description:
+      'Three-way merges the branch head into the active main-line version as a new version. ' +
+      'Clauses changed on both sides fail the merge unless `onConflict` picks a side. ' +
+      'Owners and compliance officers only.',
+  })
+  @ApiResponse({ status: 201, description: 'Merged version created.' })
+  @ApiResponse({ status: 400, description: 'The branch has nothing to merge.' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner or compliance officer.' })
+  @ApiResponse({ status: 409, description: 'Conflicting clauses, or the branch is already merged.' })
+  async mergeBranch(
+    @Param('branchId', ParseUUIDPipe) branchId: string,
+    @Body() dto: MergeBranchDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.mergeBranch({
+      branchId,
+      workspaceId: user.workspaceId,
+      userId: user.sub,
+      onConflict: dto.onConflict,
+      reason: dto.reason,
+      openPullRequest: dto.openPullRequest,
+    });
+  }
+
+  /**
+   * GET /api/v1/specs/diffs?from=&to=
+   * Clause diffs recorded between two versions on the same chain.
+   * Declared before :id so "diffs" isn't captured as a version ID.
+   */
+  @Get('diffs')
+  @ApiOperation({
+    summary: 'Get clause diffs between two spec versions',
+    description: '`from` must be an ancestor of `to`. Returns every stored diff on the chain between them.',
+  })
+  @ApiResponse({ status: 400, description: '`from` is not an ancestor of `to`.' })
+  async getDiffs(
+    @Query() query: SpecDiffsQueryDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.getDiffs(query.from, query.to, user.workspaceId);
+  }
+
+  /**
+   * GET /api/v1/specs/compare?from=&to=
+   * Structural diff between any two versions' modules.
+   * Declared before :id so "compare" isn't captured as a version ID.
+   */
+  @Get('compare')
+  @ApiOperation({
+    summary: 'Compare two spec versions',
+    description:
+      'Diffs the module JSON of any two versions in the workspace, adjacent or not, ' +
+      'including user-created ones. Computed on request; no stored diffs are needed.',
+  })
+  @ApiResponse({ status: 404, description: 'Either version not found in this workspace.' })
+  async compareVersions(
+    @Query() query: SpecDiffsQueryDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.compareVersions(query.from, query.to, user.workspaceId);
+  }
+
+  /**
+   * POST /api/v1/specs/impact-preview
+   * Dry run of a regulation against this workspace's specs.
+   */
+  @Post('impact-preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview the impact of a regulation before it is published',
+    description:
+      'Takes a regulation.new payload and runs impact analysis, module detection and diff ' +
+      'generation against this workspace\'s specs. Returns the predicted patch for each ' +
+      'affected spec and the score of each one skipped. Nothing is persisted or published.',
+  })
+  @ApiResponse({ status: 403, description: 'Only compliance officers can preview regulations.' })
+  async previewRegulationImpact(
+    @Body() dto: PreviewRegulationImpactDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.previewRegulationImpact(dto.regulation, user.workspaceId, user.sub);
+  }
+
+  /**
+   * GET /api/v1/specs/:id
+   * A single spec version with all 5 modules.
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a spec version with all 5 modules' })
+  @ApiResponse({ status: 404, description: 'Spec version not found in this workspace.' })
+  async getSpec(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.getSpec(id, user.workspaceId);
+  }
+
+  /**
+   * GET /api/v1/specs/:id/history
+   * The version chain from this version back to the initial one.
+   */
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get the version chain for a spec version (newest first)' })
+  async getHistory(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.getHistory(id, user.workspaceId);
+  }
+
+  /**
+   * GET /api/v1/specs/:id/impact-analyses
+   * How each regulation scored against this version, patched or not.
+   */
+  @Get(':id/impact-analyses')
+  @ApiOperation({
+    summary: 'List regulation impact assessments for a spec version',
+    description:
+      'One entry per regulation the version was a candidate for: its semantic score per module, ' +
+      'the threshold it was held to, and whether it was patched.',
+  })
+  async getImpactAnalyses(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.getImpactAnalyses(id, user.workspaceId);
+  }
+
+  /**
+   * POST /api/v1/specs/:id/revert
+   * Restore the modules of an ancestor as a new version on top of :id.
+   */
+  @Post(':id/revert')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Revert a spec to an earlier version',
+    description:
+      'Creates a new version whose modules equal `targetVersionId` (an ancestor of :id), ' +
+      'with inverse clause diffs. Optionally opens a GitHub PR.',
+  })
+  @ApiResponse({ status: 201, description: 'Revert version created.' })
+  @ApiResponse({ status: 400, description: 'Target is not an ancestor, or nothing to revert.' })
+  @ApiResponse({ status: 409, description: ':id is not the active version.' })
+  async revertSpec(
+    @Param('id') id: string,
+    @Body() dto: RevertSpecDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.revertSpec({
+      specVersionId: id,
+      targetVersionId: dto.targetVersionId,
+      workspaceId: user.workspaceId,
+      userId: user.sub,
+      reason: dto.reason,
+      openPullRequest: dto.openPullRequest,
+    });
+  }
+
+  /**
+   * POST /api/v1/specs/:id/clauses
+   * Edit clauses by hand. Recorded as ClauseDiffs on a new version.
+   */
+  @Post(':id/clauses')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Edit spec clauses',
+    description:
+      'Applies every edit to the active version :id as one new version, or none of them. ' +
+      'Pass `before` to make an edit conditional on the clause\'s current value. ' +
+      'Owners and compliance officers only.',
+  })
+  @ApiResponse({ status: 201, description: 'New version created.' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner or compliance officer.' })
+  @ApiResponse({ status: 409, description: 'Edits conflict with the current clauses, or :id is not active.' })
+  async editClauses(
+    @Param('id') id: string,
+    @Body() dto: EditClausesDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.editClauses({
+      specVersionId: id,
+      workspaceId: user.workspaceId,
+      userId: user.sub,
+      reason: dto.reason,
+      edits: dto.edits,
+    });
+  }
+
+  /**
+   * POST /api/v1/specs/:id/approve
+   * Activate a draft regulation patch and request its PR.
+   */
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve a draft regulation patch',
+    description:
+      'Makes draft :id the active version and opens its GitHub PR. ' +
+      'Drafts stack, so they are approved oldest first. Compliance officers only.',
+  })
+  @ApiResponse({ status: 200, description: 'Version activated.' })
+  @ApiResponse({ status: 403, description: 'Caller is not a compliance officer.' })
+  @ApiResponse({ status: 409, description: ':id is not a draft, or an earlier draft is still pending.' })
+  async approveSpec(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.approveSpec(id, user.workspaceId, user.sub);
+  }
+
+  /**
+   * POST /api/v1/specs/:id/reject
+   * Archive a draft regulation patch.
+   */
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reject a draft regulation patch',
+    description:
+      'Archives draft :id, and any drafts stacked on it, and records the reason in the ' +
+      'regulation impact log. Compliance officers only.',
+  })
+  @ApiResponse({ status: 200, description: 'Version(s) archived.' })
+  @ApiResponse({ status: 403, description: 'Caller is not a compliance officer.' })
+  @ApiResponse({ status: 409, description: ':id is not a draft.' })
+  async rejectSpec(
+    @Param('id') id: string,
+    @Body() dto: RejectSpecDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.rejectSpec(id, user.workspaceId, user.sub, dto.reason);
+  }
+
+  /**
+   * GET /api/v1/specs/:id/review
+   * Clause-by-clause review state of a draft regulation patch.
+   */
+  @Get(':id/review')
+  @ApiOperation({
+    summary: 'Get the clause review of a draft patch',
+    description: 'Every clause diff of draft :id with its review decision and comments.',
+  })
+  @ApiResponse({ status: 409, description: ':id is not a draft.' })
+  async getReview(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.getReview(id, user.workspaceId);
+  }
+
+  /**
+   * POST /api/v1/specs/:id/diffs/:diffId/comments
+   * Comment on one clause diff.
+   */
+  @Post(':id/diffs/:diffId/comments')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Comment on a clause diff' })
+  @ApiResponse({ status: 201, description: 'Comment added.' })
+  @ApiResponse({ status: 404, description: 'Diff not found on :id.' })
+  async commentOnDiff(
+    @Param('id') id: string,
+    @Param('diffId', ParseUUIDPipe) diffId: string,
+    @Body() dto: CommentOnDiffDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.commentOnDiff({
+      specVersionId: id,
+      diffId,
+      workspaceId: user.workspaceId,
+      userId: user.sub,
+      body: dto.body,
+    });
+  }
+
+  /**
+   * POST /api/v1/specs/:id/diffs/:diffId/review
+   * Accept or reject one clause of a draft regulation patch.
+   */
+  @Post(':id/diffs/:diffId/review')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Accept or reject a clause diff',
+    description:
+      'Records a decision on one clause of draft :id. Rejecting requires a reason. ' +
+      'Decisions can be changed until the review is finalized. Compliance officers only.',
+  })
+  @ApiResponse({ status: 403, description: 'Caller is not a compliance officer.' })
+  @ApiResponse({ status: 404, description: 'Diff not found on :id.' })
+  @ApiResponse({ status: 409, description: ':id is not a draft.' })
+  async reviewDiff(
+    @Param('id') id: string,
+    @Param('diffId', ParseUUIDPipe) diffId: string,
+    @Body() dto: ReviewDiffDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.reviewDiff({
+      specVersionId: id,
+      diffId,
+      workspaceId: user.workspaceId,
+      userId: user.sub,
+      decision: dto.decision,
+      reason: dto.reason,
+    });
+  }
+
+  /**
+   * POST /api/v1/specs/:id/review/finalize
+   * Replace draft :id with a version holding only its accepted clauses.
+   */
+  @Post(':id/review/finalize')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Finalize the clause review of a draft patch',
+    description:
+      'Re-applies the accepted clauses of draft :id to its parent as the new active version and ' +
+      'opens its GitHub PR. The draft is archived; rejected clauses are logged with their reasons. ' +
+      'Every clause needs a decision first. Compliance officers only.',
+  })
+  @ApiResponse({ status: 201, description: 'Reviewed version created.' })
+  @ApiResponse({ status: 400, description: 'Every clause was rejected — reject the patch instead.' })
+  @ApiResponse({ status: 403, description: 'Caller is not a compliance officer.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Clauses still pending, an earlier draft is pending, or accepted clauses depend on rejected ones.',
+  })
+  async finalizeReview(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.finalizeReview(id, user.workspaceId, user.sub);
+  }
+
+  /**
+   * POST /api/v1/specs/:id/branches
+   * Start a named branch off main-line version :id.
+   */
+  @Post(':id/branches')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Branch off a spec version',
+    description:
+      'Starts a named what-if branch off main-line version :id, optionally with different ' +
+      'jurisdictions or frameworks. The branch has its own version chain and never touches ' +
+      'the main line until merged. Owners and compliance officers only.',
+  })
+  @ApiResponse({ status: 201, description: 'Branch and its first version created.' })
+  @ApiResponse({ status: 400, description: ':id is itself on a branch.' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner or compliance officer.' })
+  @ApiResponse({ status: 409, description: 'A branch with that name exists, or :id cannot be branched.' })
+  async createBranch(
+    @Param('id') id: string,
+    @Body() dto: CreateBranchDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.specsService.createBranch({
+      fromVersionId: id,
+      workspaceId: user.workspaceId,
+      userId: user.sub,
+      name: dto.name,
+      description: dto.description,
+      jurisdictions: dto.jurisdictions,
+      frameworks: dto.frameworks,
+    });
+  }
+}
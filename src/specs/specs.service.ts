@@ -0,0 +1,1704 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { SupabaseService } from '../common/supabase.service';
+import { TOPICS } from '../infrastructure/eventBus';
+import { toOutboxRow, OutboxRow } from '../infrastructure/outboxRelay';
+import { diffSpecModules, mergeSpecModules, ModuleMergeResult } from './structuralDiff';
+import { assessRegulationImpact } from '../ai-engine/Impact-analyzer.service';
+import { previewSpecPatch } from '../compliance/spec-patcher.service';
+import { enqueueSpecPatchJob, specPatchJobId } from '../queue/specPatchQueue';
+import {
+  branchVersionLabel,
+  isHeadMovedError,
+  nextVersionLabel,
+  resolveVersioningPolicy,
+  VersioningPolicy,
+} from './versioning';
+import {
+  applyClauseDiffs,
+  getAtPath,
+  parseModuleClausePath,
+  stringifyClauseValue,
+} from '../ai-engine/clausePath';
+import {
+  SpecVersion,
+  SpecStatus,
+  ClauseDiff,
+  ClauseDiffComment,
+  ClauseReviewStatus,
+  ModuleKey,
+  MemberRole,
+  PatchConflict,
+  SpecUpdatedEvent,
+  SpecPrRequestedEvent,
+  SpecBranch,
+  ImpactAnalysisRecord,
+  RegulationNewEvent,
+  RegulationImpactPreview,
+  SpecPatchResult,
+  SpecBranchStatus,
+  BranchMergeConflict,
+} from '../types';
+
+// Columns returned by the list endpoint — the five module bodies are
+// omitted so a page of versions stays small
+const SPEC_SUMMARY_COLUMNS =
+  'id, parent_id, branch_id, version_number, version_label, status, change_reason, triggered_by, ' +
+  'regulation_trigger, jurisdictions, frameworks, created_by, created_at, scan_score, github_pr_url';
+
+// Upper bound when walking a parent_id chain — guards against cycles
+const MAX_CHAIN_DEPTH = 500;
+
+export type SpecVersionSummary = Omit<SpecVersion, 'workspaceId' | 'modules'>;
+
+export interface StoredClauseDiff extends ClauseDiff {
+  id: string;
+  fromVersionId: string;
+  toVersionId: string;
+  reviewStatus: ClauseReviewStatus;
+  reviewReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+export interface SpecComparison {
+  from: SpecVersionSummary;
+  to: SpecVersionSummary;
+  diffs: ClauseDiff[];
+  affectedModules: ModuleKey[];
+}
+
+export interface CreateBranchInput {
+  fromVersionId: string;        // Main-line version to branch off
+  workspaceId: string;
+  userId: string;
+  name: string;
+  description?: string;
+  jurisdictions?: string[];     // What-if variant — defaults to the base's
+  frameworks?: string[];
+}
+
+export interface BranchComparison {
+  branch: SpecBranch;
+  base: SpecVersionSummary;
+  branchHead: SpecVersionSummary;
+  mainHead: SpecVersionSummary;
+  branchChanges: ClauseDiff[];  // Base → branch head
+  mainChanges: ClauseDiff[];    // Base → main-line head
+  conflicts: BranchMergeConflict[];
+}
+
+// fail: nothing is merged if any clause conflicts
+// keep_main / take_branch: conflicting clauses take that side's value
+export type MergeConflictStrategy = 'fail' | 'keep_main' | 'take_branch';
+
+export interface MergeBranchInput {
+  branchId: string;
+  workspaceId: string;
+  userId: string;
+  onConflict?: MergeConflictStrategy;
+  reason?: string;
+  openPullRequest?: boolean;
+}
+
+export interface MergeBranchResult {
+  version: SpecVersion;         // New main-line version
+  branch: SpecBranch;
+  diffs: ClauseDiff[];          // Main-line head → merged version
+  conflicts: BranchMergeConflict[];  // Resolved per onConflict
+}
+
+export interface RevertSpecInput {
+  specVersionId: string;        // Active head to revert from
+  targetVersionId: string;      // Ancestor whose modules are restored
+  workspaceId: string;
+  userId: string;
+  reason?: string;
+  openPullRequest?: boolean;
+}
+
+export interface RevertSpecResult {
+  version: SpecVersion;
+  diffs: ClauseDiff[];          // Inverse of every diff between target and head, newest first
+  affectedModules: ModuleKey[];
+  pullRequestRequested: boolean;
+}
+
+export interface ClauseEdit {
+  module: ModuleKey;
+  clausePath: string;           // e.g. "auditLogging.retentionDays"
+  after: unknown;               // New value — strings as-is, anything else as JSON
+  before?: string;              // If given, the edit only applies while the clause still has this value
+  fieldLabel?: string;
+  severity?: ClauseDiff['severity'];
+}
+
+export interface EditClausesInput {
+  specVersionId: string;        // Active head to edit
+  workspaceId: string;
+  userId: string;
+  reason: string;
+  edits: ClauseEdit[];
+}
+
+export interface EditClausesResult {
+  version: SpecVersion;
+  diffs: ClauseDiff[];
+  affectedModules: ModuleKey[];
+}
+
+export interface RejectSpecResult {
+  archivedVersionIds: string[]; // The rejected draft and any drafts stacked on it
+  repatchedRegulationIds: string[]; // Stacked drafts' regulations, re-enqueued against the parent
+}
+
+export interface SpecReview {
+  specVersionId: string;
+  parentId: string;
+  diffs: Array<StoredClauseDiff & { comments: ClauseDiffComment[] }>;
+  pending: number;
+  accepted: number;
+  rejected: number;
+}
+
+export interface CommentOnDiffInput {
+  specVersionId: string;
+  diffId: string;
+  workspaceId: string;
+  userId: string;
+  body: string;
+}
+
+export interface ReviewDiffInput {
+  specVersionId: string;
+  diffId: string;
+  workspaceId: string;
+  userId: string;
+  decision: Exclude<ClauseReviewStatus, 'pending'>;
+  reason?: string;              // Required to reject
+}
+
+export interface FinalizeReviewResult {
+  version: SpecVersion;         // The new active version
+  accepted: StoredClauseDiff[];
+  rejected: StoredClauseDiff[];
+  repatchedRegulationIds?: string[]; // Stacked drafts' regulations, re-enqueued against the new version
+}
+
+// Roles allowed to change spec content by hand
+const SPEC_EDITOR_ROLES: MemberRole[] = ['owner', 'compliance_officer'];
+
+// Roles allowed to approve or reject regulation patches, or single clauses of one
+const PATCH_APPROVER_ROLES: MemberRole[] = ['compliance_officer'];
+
+const REVIEW_COMMENTER_ROLES: MemberRole[] = ['owner', 'compliance_officer', 'developer'];
+
+const MANUAL_EDIT_TRIGGER = 'Manual edit';
+
+const MODULE_KEYS: ModuleKey[] = [
+  'master_specification',
+  'security_blueprint',
+  'cost_analysis',
+  'tech_stack_justification',
+  'code_scaffolding',
+];
+
+export interface ListSpecsInput {
+  workspaceId: string;
+  page: number;
+  limit: number;
+  status?: SpecStatus;
+  branchId?: string;            // Omit for the main line
+}
+
+@Injectable()
+export class SpecsService {
+  private readonly logger = new Logger(SpecsService.name);
+
+  constructor(private readonly supabase: SupabaseService) {}
+
+  /**
+   * List spec versions for a workspace (paginated, newest first).
+   */
+  async listSpecs(input: ListSpecsInput): Promise<{
+    data: SpecVersionSummary[];
+    total: number;
+    page: number;
+  }> {
+    const from = (input.page - 1) * input.limit;
+    const to = from + input.limit - 1;
+
+    let query = this.supabase.db
+      .from('spec_versions')
+      .select(SPEC_SUMMARY_COLUMNS, { count: 'exact' })
+      .eq('workspace_id', input.workspaceId);
+
+    if (input.status) {
+      query = query.eq('status', input.status);
+    }
+
+    query = input.branchId ? query.eq('branch_id', input.branchId) : query.is('branch_id', null);
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    if (error) throw new Error(`Failed to list specs: ${error.message}`);
+
+    return {
+      data: (data ?? []).map((row: any) => this.mapSummaryRow(row)),
+      total: count ?? 0,
+      page: input.page,
+    };
+  }
+
+  /**
+   * Get a single spec version with all 5 modules.
+   */
+  async getSpec(specVersionId: string, workspaceId: string): Promise<SpecVersion> {
+    const { data, error } = await this.supabase.db
+      .from('spec_versions')
+      .select('*')
+      .eq('id', specVersionId)
+      .eq('workspace_id', workspaceId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException(`Spec version ${specVersionId} not found.`);
+    }
+
+    return this.mapRow(data);
+  }
+
+  /**
+   * Walk the parent_id chain from a version back to the initial version.
+   * Returns newest first — index 0 is the requested version.
+   */
+  async getHistory(specVersionId: string, workspaceId: string): Promise<SpecVersionSummary[]> {
+    const chain: SpecVersionSummary[] = [];
+    let currentId: string | null = specVersionId;
+
+    while (currentId && chain.length < MAX_CHAIN_DEPTH) {
+      const { data, error } = await this.supabase.db
+        .from('spec_versions')
+        .select(SPEC_SUMMARY_COLUMNS)
+        .eq('id', currentId)
+        .eq('workspace_id', workspaceId)
+        .single();
+
+      if (error || !data) {
+        // The requested version itself must exist; a missing ancestor just ends the chain
+        if (chain.length === 0) {
+          throw new NotFoundException(`Spec version ${specVersionId} not found.`);
+        }
+        this.logger.warn(`History for ${specVersionId} ends at missing ancestor ${currentId}.`);
+        break;
+      }
+
+      const summary = this.mapSummaryRow(data);
+      chain.push(summary);
+      currentId = summary.parentId;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Every impact assessment of a spec version, newest first —
+   * including regulations it was judged unaffected by.
+   */
+  async getImpactAnalyses(specVersionId: string, workspaceId: string): Promise<ImpactAnalysisRecord[]> {
+    const { data, error } = await this.supabase.db
+      .from('regulation_impact_analysis')
+      .select('*')
+      .eq('spec_version_id', specVersionId)
+      .eq('workspace_id', workspaceId)
+      .order('analyzed_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to load impact analyses: ${error.message}`);
+
+    return (data ?? []).map((row: any) => ({
+      id: row.id,
+      regulationId: row.regulation_id,
+      regulationRef: row.regulation_ref,
+      specVersionId: row.spec_version_id,
+      semanticScore: row.semantic_score,
+      threshold: row.threshold,
+      moduleScores: row.module_scores ?? undefined,
+      topSections: row.top_sections ?? undefined,
+      affected: row.affected,
+      skipReason: row.skip_reason ?? undefined,
+      analyzedAt: row.analyzed_at,
+    }));
+  }
+
+  /**
+   * Return the stored spec_diffs rows between two versions.
+   * `from` must be an ancestor of `to` — the diffs of every patch
+   * on the chain between them are returned, oldest first.
+   */
+  async getDiffs(
+    fromVersionId: string,
+    toVersionId: string,
+    workspaceId: string,
+  ): Promise<StoredClauseDiff[]> {
+    if (fromVersionId === toVersionId) return [];
+
+    // Both ends must belong to this workspace (tenant isolation)
+    await this.getSpec(fromVersionId, workspaceId);
+    const history = await this.getHistory(toVersionId, workspaceId);
+
+    const fromIndex = history.findIndex(v => v.id === fromVersionId);
+    if (fromIndex === -1) {
+      throw new BadRequestException(
+        `Spec version ${fromVersionId} is not an ancestor of ${toVersionId}.`,
+      );
+    }
+
+    // Versions after `from` up to and including `to`, oldest first
+    const targetIds = history.slice(0, fromIndex).map(v => v.id).reverse();
+
+    const { data, error } = await this.supabase.db
+      .from('spec_diffs')
+      .select('*')
+      .in('to_version_id', targetIds);
+
+    if (error) throw new Error(`Failed to load spec diffs: ${error.message}`);
+
+    const order = new Map(targetIds.map((id, i) => [id, i]));
+
+    return (data ?? [])
+      .map((row: any) => this.mapDiffRow(row))
+      .sort((a, b) =>
+        order.get(a.toVersionId)! - order.get(b.toVersionId)! ||
+        (a.createdAt ?? '').localeCompare(b.createdAt ?? ''),
+      );
+  }
+
+  /**
+   * What a regulation would do to this workspace's specs if it were
+   * published: the same impact analysis and diff generation as the
+   * regulation consumer and patch worker, but nothing is recorded,
+   * committed or published. Costs the same model calls as a real run.
+   * Specs without stored embeddings are embedded in memory for the
+   * preview; none are stored.
+   */
+  async previewRegulationImpact(
+    regulation: RegulationNewEvent['regulation'],
+    workspaceId: string,
+    userId: string,
+  ): Promise<RegulationImpactPreview> {
+    await this.assertMemberRole(workspaceId, userId, PATCH_APPROVER_ROLES);
+
+    const assessments = await assessRegulationImpact(
+      regulation.framework,
+      regulation.jurisdiction,
+      regulation.content,
+      { workspaceId, backfillEmbeddings: false },   // A preview writes nothing — not even embeddings
+    );
+
+    // One at a time, like the patch worker — keeps model calls under its rate limit
+    const patches: SpecPatchResult[] = [];
+    for (const assessment of assessments.filter(a => a.affected)) {
+      patches.push(await previewSpecPatch({
+        specVersionId: assessment.specId,
+        workspaceId,
+        regulation,
+        moduleScores: assessment.moduleScores,
+        semanticThreshold: assessment.threshold ?? undefined,
+      }));
+    }
+
+    return {
+      regulationTrigger: `${regulation.framework} ${regulation.article}`,
+      patches,
+      skipped: assessments
+        .filter(a => !a.affected)
+        .map(a => ({
+          specVersionId: a.specId,
+          semanticScore: a.semanticScore,
+          threshold: a.threshold,
+          skipReason: a.skipReason,
+        })),
+    };
+  }
+
+  /**
+   * Compare the modules of any two versions in the workspace —
+   * they need not be on the same chain. Diffs are computed from
+   * the module JSON, not read from spec_diffs.
+   */
+  async compareVersions(
+    fromVersionId: string,
+    toVersionId: string,
+    workspaceId: string,
+  ): Promise<SpecComparison> {
+    const from = await this.getSpec(fromVersionId, workspaceId);
+    const to = await this.getSpec(toVersionId, workspaceId);
+
+    const diffs = diffSpecModules(from.modules, to.modules, {
+      regulationTrigger: `Compare ${from.versionLabel} → ${to.versionLabel}`,
+    });
+
+    return {
+      from: toSummary(from),
+      to: toSummary(to),
+      diffs,
+      affectedModules: MODULE_KEYS.filter(key => diffs.some(d => d.module === key)),
+    };
+  }
+
+  /**
+   * Create a new version on top of the active head whose modules
+   * equal an ancestor's. The stored diffs between the two are
+   * inverted and recorded against the new version, so the revert
+   * shows up in history like any other change.
+   */
+  async revertSpec(input: RevertSpecInput): Promise<RevertSpecResult> {
+    const { specVersionId, targetVersionId, workspaceId, userId } = input;
+
+    await this.assertMemberRole(workspaceId, userId, SPEC_EDITOR_ROLES);
+
+    if (specVersionId === targetVersionId) {
+      throw new BadRequestException('Cannot revert a spec version to itself.');
+    }
+
+    const head = await this.getSpec(specVersionId, workspaceId);
+    if (head.status !== 'active') {
+      throw new ConflictException(
+        `Spec version ${specVersionId} is ${head.status}. Only the active version can be reverted.`,
+      );
+    }
+    await this.assertNoPendingDraft(head);
+
+    // Also checks the target is an ancestor in this workspace
+    const storedDiffs = await this.getDiffs(targetVersionId, specVersionId, workspaceId);
+    const target = await this.getSpec(targetVersionId, workspaceId);
+
+    const affectedModules = MODULE_KEYS.filter(
+      key => JSON.stringify(head.modules[key]) !== JSON.stringify(target.modules[key]),
+    );
+
+    if (affectedModules.length === 0) {
+      throw new BadRequestException(
+        `Spec version ${specVersionId} already matches ${target.versionLabel}. Nothing to revert.`,
+      );
+    }
+
+    const trigger = `Revert to ${target.versionLabel}`;
+
+    // Undo newest change first
+    const inverseDiffs: ClauseDiff[] = [...storedDiffs].reverse().map(d => ({
+      module: d.module,
+      clausePath: d.clausePath,
+      fieldLabel: d.fieldLabel,
+      before: d.after,
+      after: d.before,
+      reason: `Reverted: ${d.reason}`,
+      regulationTrigger: d.regulationTrigger,
+      severity: d.severity,
+    }));
+
+    const changeReason =
+      `Revert to ${target.versionLabel} (${target.id}) from ${head.versionLabel}` +
+      (input.reason ? ` — ${input.reason}` : '');
+
+    const version = await this.commitVersion({
+      head,
+      workspaceId,
+      userId,
+      changeReason,
+      trigger,
+      modules: target.modules,
+      diffs: inverseDiffs,
+      affectedModules,
+      openPullRequest: input.openPullRequest,
+      overrides: {
+        jurisdictions: target.jurisdictions,
+        frameworks: target.frameworks,
+        scanScore: target.scanScore,
+      },
+    });
+
+    this.logger.log(
+      `Spec ${head.id} reverted to ${target.id} as ${version.id} (${version.versionLabel}) — ` +
+      `${inverseDiffs.length} inverse diff(s)${input.openPullRequest ? ', PR requested' : ''}`,
+    );
+
+    return {
+      version,
+      diffs: inverseDiffs,
+      affectedModules,
+      pullRequestRequested: !!input.openPullRequest,
+    };
+  }
+
+  /**
+   * Apply hand-written clause edits to the active head as a new
+   * version. All edits apply or none do: any edit whose path
+   * doesn't resolve, whose `before` no longer matches, or whose
+   * value changes the clause's type is returned as a conflict.
+   */
+  async editClauses(input: EditClausesInput): Promise<EditClausesResult> {
+    const { specVersionId, workspaceId, userId } = input;
+
+    await this.assertMemberRole(workspaceId, userId, SPEC_EDITOR_ROLES);
+
+    const head = await this.getSpec(specVersionId, workspaceId);
+    if (head.status !== 'active') {
+      throw new ConflictException(
+        `Spec version ${specVersionId} is ${head.status}. Only the active version can be edited.`,
+      );
+    }
+    await this.assertNoPendingDraft(head);
+
+    const diffs: ClauseDiff[] = input.edits.map(edit => {
+      let current: unknown;
+      try {
+        current = getAtPath(head.modules[edit.module], parseModuleClausePath(edit.clausePath, edit.module));
+      } catch (err: any) {
+        throw new BadRequestException(err.message);
+      }
+
+      return {
+        module: edit.module,
+        clausePath: edit.clausePath,
+        fieldLabel: edit.fieldLabel ?? edit.clausePath,
+        before: edit.before ?? stringifyClauseValue(current),
+        after: stringifyClauseValue(edit.after),
+        reason: input.reason,
+        regulationTrigger: MANUAL_EDIT_TRIGGER,
+        severity: edit.severity ?? 'medium',
+      };
+    });
+
+    const modules = { ...head.modules };
+    const conflicts: PatchConflict[] = [];
+
+    for (const key of MODULE_KEYS) {
+      const moduleDiffs = diffs.filter(d => d.module === key);
+      if (moduleDiffs.length === 0) continue;
+
+      const result = applyClauseDiffs(head.modules[key], moduleDiffs);
+      (modules as any)[key] = result.data;
+      conflicts.push(...result.conflicts);
+    }
+
+    if (conflicts.length > 0) {
+      throw new ConflictException({
+        message: `${conflicts.length} of ${diffs.length} edit(s) could not be applied. Nothing was changed.`,
+        conflicts,
+      });
+    }
+
+    const affectedModules = MODULE_KEYS.filter(
+      key => JSON.stringify(modules[key]) !== JSON.stringify(head.modules[key]),
+    );
+
+    if (affectedModules.length === 0) {
+      throw new BadRequestException('The edits do not change the spec.');
+    }
+
+    const version = await this.commitVersion({
+      head,
+      workspaceId,
+      userId,
+      changeReason: `${MANUAL_EDIT_TRIGGER}: ${input.reason} — ${diffs.length} clause(s) changed`,
+      trigger: MANUAL_EDIT_TRIGGER,
+      modules,
+      diffs,
+      affectedModules,
+    });
+
+    this.logger.log(
+      `Spec ${head.id} edited by ${userId} as ${version.id} (${version.versionLabel}) — ${diffs.length} clause(s)`,
+    );
+
+    return { version, diffs, affectedModules };
+  }
+
+  // ── Patch Approval ──────────────────────────────────────────
+
+  /**
+   * Make a draft regulation patch the active version and request
+   * its PR. Drafts stack, so only the oldest pending draft — the
+   * one directly on top of the active version — can be approved.
+   * A draft with rejected clauses must go through finalizeReview.
+   */
+  async approveSpec(specVersionId: string, workspaceId: string, userId: string): Promise<SpecVersion> {
+    await this.assertMemberRole(workspaceId, userId, PATCH_APPROVER_ROLES);
+
+    const { draft, parent } = await this.getApprovableDraft(specVersionId, workspaceId);
+    const storedDiffs = await this.getVersionDiffs(draft.id);
+
+    const rejected = storedDiffs.filter(d => d.reviewStatus === 'rejected').length;
+    if (rejected > 0) {
+      throw new ConflictException(
+        `${rejected} clause(s) of spec version ${specVersionId} were rejected in review. ` +
+        'Finalize the review instead.',
+      );
+    }
+
+    // Activates the draft (the DB trigger supersedes its parent),
+    // marks its regulation_impact_log row patched and writes the
+    // events to the outbox — all in one transaction
+    const { error } = await this.supabase.db.rpc('approve_spec_version', {
+      p_version_id: draft.id,
+      p_reviewed_by: userId,
+      p_outbox: this.buildPatchOutbox({
+        workspaceId,
+        parentId: parent.id,
+        versionId: draft.id,
+        versionLabel: draft.versionLabel,
+        trigger: draft.regulationTrigger ?? draft.changeReason,
+        diffs: storedDiffs.map(toClauseDiff),
+      }),
+    });
+
+    if (error) throw new Error(`Failed to approve spec version: ${error.message}`);
+
+    this.logger.log(`Spec ${draft.id} (${draft.versionLabel}) approved by ${userId} — PR requested`);
+
+    return this.getSpec(draft.id, workspaceId);
+  }
+
+  /**
+   * Archive a draft regulation patch and record why in
+   * regulation_impact_log. Drafts stacked on top of it were built
+   * from its content, so they are archived with it — and their
+   * regulations are re-enqueued against the rejected draft's
+   * parent, so those patches aren't lost.
+   */
+  async rejectSpec(
+    specVersionId: string,
+    workspaceId: string,
+    userId: string,
+    reason: string,
+  ): Promise<RejectSpecResult> {
+    await this.assertMemberRole(workspaceId, userId, PATCH_APPROVER_ROLES);
+
+    const draft = await this.getPendingDraft(specVersionId, workspaceId);
+
+    // Archives the draft and its draft descendants and marks their
+    // regulation_impact_log rows rejected with the reason
+    const { data, error } = await this.supabase.db.rpc('reject_spec_version', {
+      p_version_id: draft.id,
+      p_reviewed_by: userId,
+      p_reason: reason,
+    });
+
+    if (error) throw new Error(`Failed to reject spec version: ${error.message}`);
+
+    const archivedVersionIds: string[] = data ?? [draft.id];
+    const repatchedRegulationIds = await this.repatchArchivedDrafts(
+      archivedVersionIds.filter(id => id !== draft.id),
+      workspaceId,
+      draft.parentId!,
+    );
+
+    this.logger.log(
+      `Spec ${draft.id} (${draft.versionLabel}) rejected by ${userId} — ` +
+      `${archivedVersionIds.length} version(s) archived, ${repatchedRegulationIds.length} regulation(s) re-enqueued`,
+    );
+
+    return { archivedVersionIds, repatchedRegulationIds };
+  }
+
+  // ── Clause Review ───────────────────────────────────────────
+
+  /**
+   * The clause diffs of a draft regulation patch, with each one's
+   * review decision and comments.
+   */
+  async getReview(specVersionId: string, workspaceId: string): Promise<SpecReview> {
+    const draft = await this.getPendingDraft(specVersionId, workspaceId);
+    const diffs = await this.getVersionDiffs(draft.id);
+
+    const comments = new Map<string, ClauseDiffComment[]>();
+
+    if (diffs.length > 0) {
+      const { data, error } = await this.supabase.db
+        .from('spec_diff_comments')
+        .select('*')
+        .in('diff_id', diffs.map(d => d.id))
+        .order('created_at', { ascending: true });
+
+      if (error) throw new Error(`Failed to load review comments: ${error.message}`);
+
+      for (const row of data ?? []) {
+        const comment = this.mapCommentRow(row);
+        comments.set(comment.diffId, [...(comments.get(comment.diffId) ?? []), comment]);
+      }
+    }
+
+    const count = (status: ClauseReviewStatus) => diffs.filter(d => d.reviewStatus === status).length;
+
+    return {
+      specVersionId: draft.id,
+      parentId: draft.parentId!,
+      diffs: diffs.map(d => ({ ...d, comments: comments.get(d.id) ?? [] })),
+      pending: count('pending'),
+      accepted: count('accepted'),
+      rejected: count('rejected'),
+    };
+  }
+
+  /**
+   * Comment on one clause diff. Any workspace member may comment,
+   * on any version's diffs.
+   */
+  async commentOnDiff(input: CommentOnDiffInput): Promise<ClauseDiffComment> {
+    const { specVersionId, diffId, workspaceId, userId } = input;
+
+    await this.assertMemberRole(workspaceId, userId, REVIEW_COMMENTER_ROLES);
+    await this.getSpec(specVersionId, workspaceId);
+    await this.getVersionDiff(specVersionId, diffId);
+
+    const { data, error } = await this.supabase.db
+      .from('spec_diff_comments')
+      .insert({
+        diff_id: diffId,
+        workspace_id: workspaceId,
+        author_id: userId,
+        body: input.body,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to add review comment: ${error.message}`);
+    return this.mapCommentRow(data);
+  }
+
+  /**
+   * Accept or reject one clause diff of a draft regulation patch.
+   * Decisions can be changed until the review is finalized.
+   */
+  async reviewDiff(input: ReviewDiffInput): Promise<StoredClauseDiff> {
+    const { specVersionId, diffId, workspaceId, userId, decision } = input;
+
+    await this.assertMemberRole(workspaceId, userId, PATCH_APPROVER_ROLES);
+    await this.getPendingDraft(specVersionId, workspaceId);
+    await this.getVersionDiff(specVersionId, diffId);
+
+    if (decision === 'rejected' && !input.reason) {
+      throw new BadRequestException('A reason is required to reject a clause.');
+    }
+
+    const { data, error } = await this.supabase.db
+      .from('spec_diffs')
+      .update({
+        review_status: decision,
+        review_reason: input.reason ?? null,
+        reviewed_by: userId,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', diffId)
+      .eq('to_version_id', specVersionId)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to record clause review: ${error.message}`);
+    return this.mapDiffRow(data);
+  }
+
+  /**
+   * Close the review of a draft regulation patch. Every clause must
+   * have a decision. The accepted clauses are re-applied to the
+   * draft's parent as a new active version (with its PR requested)
+   * that replaces the draft; the rejected ones, with their reasons,
+   * are recorded in regulation_impact_log. Drafts stacked on the
+   * reviewed one are archived and their regulations re-enqueued
+   * against the new version.
+   *
+   * If every clause was accepted this is the same as approveSpec.
+   */
+  async finalizeReview(specVersionId: string, workspaceId: string, userId: string): Promise<FinalizeReviewResult> {
+    await this.assertMemberRole(workspaceId, userId, PATCH_APPROVER_ROLES);
+
+    const { draft, parent } = await this.getApprovableDraft(specVersionId, workspaceId);
+    const storedDiffs = await this.getVersionDiffs(draft.id);
+
+    const pending = storedDiffs.filter(d => d.reviewStatus === 'pending').length;
+    if (pending > 0) {
+      throw new ConflictException(`${pending} clause(s) of spec version ${specVersionId} have not been reviewed yet.`);
+    }
+
+    const accepted = storedDiffs.filter(d => d.reviewStatus === 'accepted');
+    const rejected = storedDiffs.filter(d => d.reviewStatus === 'rejected');
+
+    if (rejected.length === 0) {
+      const version = await this.approveSpec(specVersionId, workspaceId, userId);
+      return { version, accepted, rejected };
+    }
+    if (accepted.length === 0) {
+      throw new BadRequestException('Every clause was rejected. Reject the patch instead.');
+    }
+
+    // Re-apply only what was accepted, to the parent's content
+    const modules = { ...parent.modules };
+    const conflicts: PatchConflict[] = [];
+
+    for (const key of MODULE_KEYS) {
+      const moduleDiffs = accepted.filter(d => d.module === key).map(toClauseDiff);
+      if (moduleDiffs.length === 0) continue;
+
+      const result = applyClauseDiffs(parent.modules[key], moduleDiffs);
+      (modules as any)[key] = result.data;
+      conflicts.push(...result.conflicts);
+    }
+
+    if (conflicts.length > 0) {
+      // An accepted clause depended on a rejected one
+      throw new ConflictException({
+        message: `${conflicts.length} accepted clause(s) no longer apply without the rejected ones.`,
+        conflicts,
+      });
+    }
+
+    const newVersionId = uuidv4();
+    const trigger = draft.regulationTrigger ?? draft.changeReason;
+
+    // Fewer clauses than the draft — the bump may be smaller too
+    const policy = await this.getVersioningPolicy(workspaceId);
+    const versionLabel = nextVersionLabel(parent.versionLabel, accepted.map(toClauseDiff), policy);
+
+    const specVersionRow = {
+      id: newVersionId,
+      workspace_id: workspaceId,
+      parent_id: parent.id,
+      version_number: draft.versionNumber,
+      version_label: versionLabel,
+      status: 'active',
+      change_reason:
+        `Compliance update: ${trigger} — ${accepted.length} of ${storedDiffs.length} clause(s) accepted in review`,
+      triggered_by: 'regulation_update',
+      regulation_trigger: draft.regulationTrigger ?? null,
+      jurisdictions: draft.jurisdictions,
+      frameworks: draft.frameworks,
+      master_specification: modules.master_specification,
+      security_blueprint: modules.security_blueprint,
+      cost_analysis: modules.cost_analysis,
+      tech_stack_justification: modules.tech_stack_justification,
+      code_scaffolding: modules.code_scaffolding,
+      scan_score: null,
+      created_by: userId,
+    };
+
+    const diffRows = accepted.map(d => ({
+      from_version_id: parent.id,
+      to_version_id: newVersionId,
+      module: d.module,
+      clause_path: d.clausePath,
+      field_label: d.fieldLabel,
+      before_value: d.before,
+      after_value: d.after,
+      reason: d.reason,
+      regulation_trigger: d.regulationTrigger,
+      severity: d.severity,
+      review_status: 'accepted',
+      review_reason: d.reviewReason ?? null,
+      reviewed_by: d.reviewedBy,
+      reviewed_at: d.reviewedAt,
+    }));
+
+    const rejectedClauses = rejected.map(d => ({
+      diff_id: d.id,
+      module: d.module,
+      clause_path: d.clausePath,
+      before_value: d.before,
+      after_value: d.after,
+      reason: d.reviewReason,
+      reviewed_by: d.reviewedBy,
+      reviewed_at: d.reviewedAt,
+    }));
+
+    // Read before the RPC archives them
+    const stackedDraftIds = await this.getStackedDraftIds(draft);
+
+    // In one transaction: archives the draft (and any drafts stacked
+    // on it, whose impact log rows are marked rejected), inserts the
+    // new version as the parent's successor with its diffs, records
+    // the rejected clauses on the draft's regulation_impact_log row
+    // and writes the events to the outbox
+    const { error } = await this.supabase.db.rpc('finalize_spec_review', {
+      p_draft_id: draft.id,
+      p_reviewed_by: userId,
+      p_spec_version: specVersionRow,
+      p_diffs: diffRows,
+      p_rejected_clauses: rejectedClauses,
+      p_outbox: this.buildPatchOutbox({
+        workspaceId,
+        parentId: parent.id,
+        versionId: newVersionId,
+        versionLabel,
+        trigger,
+        diffs: accepted.map(toClauseDiff),
+      }),
+    });
+
+    if (isHeadMovedError(error)) {
+      throw new ConflictException(
+        `Spec version ${parent.id} was superseded in the meantime. Reload the review and retry.`,
+      );
+    }
+    if (error) throw new Error(`Failed to finalize review: ${error.message}`);
+
+    // The stacked drafts were built on content that never became active
+    const repatchedRegulationIds = await this.repatchArchivedDrafts(stackedDraftIds, workspaceId, newVersionId);
+
+    this.logger.log(
+      `Review of spec ${draft.id} finalized by ${userId} as ${newVersionId} (${versionLabel}) — ` +
+      `${accepted.length} accepted, ${rejected.length} rejected, ` +
+      `${repatchedRegulationIds.length} stacked regulation(s) re-enqueued`,
+    );
+
+    return {
+      version: await this.getSpec(newVersionId, workspaceId),
+      accepted,
+      rejected,
+      repatchedRegulationIds,
+    };
+  }
+
+  private async getPendingDraft(specVersionId: string, workspaceId: string): Promise<SpecVersion> {
+    const spec = await this.getSpec(specVersionId, workspaceId);
+
+    if (spec.status !== 'draft' || !spec.parentId) {
+      throw new ConflictException(
+        `Spec version ${specVersionId} is ${spec.status}. Only draft patches await approval.`,
+      );
+    }
+
+    return spec;
+  }
+
+  /**
+   * A draft that can go live now: the one directly on top of the
+   * active version.
+   */
+  /**
+   * Manual changes go on the active version only when no regulation
+   * draft is waiting on it — the draft would otherwise be orphaned.
+   */
+  private async assertNoPendingDraft(head: SpecVersion): Promise<void> {
+    let query = this.supabase.db
+      .from('spec_versions')
+      .select('id, version_label')
+      .eq('parent_id', head.id)
+      .eq('status', 'draft');
+    query = head.branchId ? query.eq('branch_id', head.branchId) : query.is('branch_id', null);
+
+    const { data, error } = await query.limit(1).maybeSingle();
+
+    if (error) throw new Error(`Failed to check for pending drafts: ${error.message}`);
+    if (data) {
+      throw new ConflictException(
+        `Spec version ${head.id} has a pending regulation patch, ${data.version_label} (${data.id}). ` +
+        'Approve or reject it first.',
+      );
+    }
+  }
+
+  /**
+   * The drafts stacked on top of a draft, nearest first.
+   */
+  private async getStackedDraftIds(draft: SpecVersion): Promise<string[]> {
+    const ids: string[] = [];
+    let parentId = draft.id;
+
+    for (let depth = 0; depth < MAX_CHAIN_DEPTH; depth++) {
+      let query = this.supabase.db
+        .from('spec_versions')
+        .select('id')
+        .eq('parent_id', parentId)
+        .eq('status', 'draft');
+      query = draft.branchId ? query.eq('branch_id', draft.branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) throw new Error(`Failed to load stacked drafts: ${error.message}`);
+      if (!data) break;
+
+      ids.push(data.id);
+      parentId = data.id;
+    }
+
+    return ids;
+  }
+
+  /**
+   * Re-enqueue the regulations behind archived drafts against the
+   * surviving head. The patch worker resolves the head of the chain
+   * itself, so the patches stack again. Returns the regulation IDs
+   * that were enqueued.
+   */
+  private async repatchArchivedDrafts(
+    archivedVersionIds: string[],
+    workspaceId: string,
+    headId: string,
+  ): Promise<string[]> {
+    if (archivedVersionIds.length === 0) return [];
+
+    const { data: logRows, error: logError } = await this.supabase.db
+      .from('regulation_impact_log')
+      .select('regulation_id, new_spec_version_id')
+      .eq('workspace_id', workspaceId)
+      .in('new_spec_version_id', archivedVersionIds);
+
+    if (logError) throw new Error(`Failed to load archived drafts' regulations: ${logError.message}`);
+    if (!logRows || logRows.length === 0) return [];
+
+    const { data: regulations, error } = await this.supabase.db
+      .from('regulations')
+      .select('id, framework, article, title, content, jurisdiction, severity')
+      .in('id', logRows.map((r: any) => r.regulation_id));
+
+    if (error) throw new Error(`Failed to load regulations to re-patch: ${error.message}`);
+
+    const regulationsById = new Map((regulations ?? []).map((r: any) => [r.id, r]));
+    const repatched: string[] = [];
+
+    for (const row of logRows as any[]) {
+      const regulation = regulationsById.get(row.regulation_id);
+      if (!regulation) continue;
+
+      try {
+        await enqueueSpecPatchJob({
+          jobId: specPatchJobId(row.new_spec_version_id, headId),
+          specVersionId: headId,
+          workspaceId,
+          regulation,
+        });
+        repatched.push(regulation.id);
+      } catch (err: any) {
+        this.logger.error(
+          `Failed to re-enqueue ${regulation.framework} ${regulation.article} for spec ${headId}: ${err.message}`,
+        );
+      }
+    }
+
+    return repatched;
+  }
+
+  private async getApprovableDraft(
+    specVersionId: string,
+    workspaceId: string,
+  ): Promise<{ draft: SpecVersion; parent: SpecVersion }> {
+    const draft = await this.getPendingDraft(specVersionId, workspaceId);
+    const parent = await this.getSpec(draft.parentId!, workspaceId);
+
+    if (parent.status !== 'active') {
+      throw new ConflictException(
+        `Spec version ${specVersionId} builds on ${parent.versionLabel}, which is ${parent.status}. ` +
+        'Approve the earlier draft first.',
+      );
+    }
+
+    return { draft, parent };
+  }
+
+  /**
+   * The diffs recorded against one version, in the order they were applied.
+   */
+  private async getVersionDiffs(versionId: string): Promise<StoredClauseDiff[]> {
+    const { data, error } = await this.supabase.db
+      .from('spec_diffs')
+      .select('*')
+      .eq('to_version_id', versionId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to load spec diffs: ${error.message}`);
+    return (data ?? []).map((row: any) => this.mapDiffRow(row));
+  }
+
+  private async getVersionDiff(versionId: string, diffId: string): Promise<StoredClauseDiff> {
+    const { data, error } = await this.supabase.db
+      .from('spec_diffs')
+      .select('*')
+      .eq('id', diffId)
+      .eq('to_version_id', versionId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load spec diff: ${error.message}`);
+    if (!data) throw new NotFoundException(`Diff ${diffId} not found on spec version ${versionId}.`);
+
+    return this.mapDiffRow(data);
+  }
+
+  /**
+   * Outbox rows for a regulation patch going live: spec.updated
+   * plus the PR request.
+   */
+  private buildPatchOutbox(params: {
+    workspaceId: string;
+    parentId: string;
+    versionId: string;
+    versionLabel: string;
+    trigger: string;
+    diffs: ClauseDiff[];
+  }): OutboxRow[] {
+    const { workspaceId, parentId, versionId, trigger, diffs } = params;
+    const affectedModules = MODULE_KEYS.filter(key => diffs.some(d => d.module === key));
+
+    const specUpdatedEvent: SpecUpdatedEvent = {
+      eventId: uuidv4(),
+      eventType: 'spec.updated',
+      workspaceId,
+      specVersionId: parentId,
+      newVersionId: versionId,
+      regulationTrigger: trigger,
+      affectedModules,
+      diffs,
+      githubPrRequested: true,
+    };
+
+    const prRequestedEvent: SpecPrRequestedEvent = {
+      eventId: uuidv4(),
+      eventType: 'spec.pr_requested',
+      workspaceId,
+      specVersionId: versionId,
+      previousVersionId: parentId,
+      regulationTrigger: trigger,
+      affectedModules,
+      diffs,
+      versionLabel: params.versionLabel,
+    };
+
+    return [
+      toOutboxRow(TOPICS.SPEC_UPDATED, specUpdatedEvent, workspaceId),
+      toOutboxRow(TOPICS.SPEC_PR_REQUESTED, prRequestedEvent, workspaceId),
+    ];
+  }
+
+  // ── Branches ────────────────────────────────────────────────
+  // A branch is a chain of versions (branch_id set) hanging off a
+  // main-line version. Within a chain the usual rules hold — one
+  // successor per version, the DB trigger supersedes the parent
+  // when an active version is added — but both are scoped to the
+  // version's branch, so a branch never supersedes main-line
+  // versions and vice versa.
+
+  /**
+   * Start a branch off a main-line version. Its first version copies
+   * the base's modules, with the what-if jurisdictions and frameworks
+   * if given; it then takes edits and reverts like any version.
+   */
+  async createBranch(input: CreateBranchInput): Promise<{ branch: SpecBranch; version: SpecVersion }> {
+    const { fromVersionId, workspaceId, userId, name } = input;
+
+    await this.assertMemberRole(workspaceId, userId, SPEC_EDITOR_ROLES);
+
+    const base = await this.getSpec(fromVersionId, workspaceId);
+    if (base.branchId) {
+      throw new BadRequestException(`Spec version ${fromVersionId} is on a branch. Branch off a main-line version.`);
+    }
+    if (base.status === 'draft' || base.status === 'archived') {
+      throw new ConflictException(`Spec version ${fromVersionId} is ${base.status} and cannot be branched.`);
+    }
+
+    const { data: existing } = await this.supabase.db
+      .from('spec_branches')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('name', name)
+      .maybeSingle();
+
+    if (existing) {
+      throw new ConflictException(`Branch "${name}" already exists.`);
+    }
+
+    const { data: branchRow, error } = await this.supabase.db
+      .from('spec_branches')
+      .insert({
+        workspace_id: workspaceId,
+        name,
+        base_version_id: base.id,
+        description: input.description ?? null,
+        status: 'open',
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error || !branchRow) throw new Error(`Failed to create branch: ${error?.message}`);
+    const branch = this.mapBranchRow(branchRow);
+
+    let version: SpecVersion;
+    try {
+      version = await this.commitVersion({
+        head: base,
+        workspaceId,
+        userId,
+        changeReason: `Branch "${name}" from ${base.versionLabel}` + (input.description ? ` — ${input.description}` : ''),
+        trigger: `Branch ${name}`,
+        modules: base.modules,
+        diffs: [],
+        affectedModules: [],
+        branchId: branch.id,
+        versionLabel: branchVersionLabel(base.versionLabel, name),
+        overrides: {
+          jurisdictions: input.jurisdictions ?? base.jurisdictions,
+          frameworks: input.frameworks ?? base.frameworks,
+          scanScore: base.scanScore,
+        },
+      });
+    } catch (err) {
+      // A branch without its first version is unusable — undo it
+      await this.supabase.db.from('spec_branches').delete().eq('id', branch.id);
+      throw err;
+    }
+
+    this.logger.log(`Branch "${name}" (${branch.id}) created off ${base.id} (${base.versionLabel}) by ${userId}`);
+
+    return { branch, version };
+  }
+
+  async listBranches(workspaceId: string, status?: SpecBranchStatus): Promise<SpecBranch[]> {
+    let query = this.supabase.db
+      .from('spec_branches')
+      .select('*')
+      .eq('workspace_id', workspaceId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to list branches: ${error.message}`);
+    return (data ?? []).map((row: any) => this.mapBranchRow(row));
+  }
+
+  async getBranch(branchId: string, workspaceId: string): Promise<SpecBranch> {
+    const { data, error } = await this.supabase.db
+      .from('spec_branches')
+      .select('*')
+      .eq('id', branchId)
+      .eq('workspace_id', workspaceId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException(`Branch ${branchId} not found.`);
+    }
+
+    return this.mapBranchRow(data);
+  }
+
+  /**
+   * What the branch and the main line each changed since the branch
+   * point, and the clauses they both changed.
+   */
+  async compareBranch(branchId: string, workspaceId: string): Promise<BranchComparison> {
+    const branch = await this.getBranch(branchId, workspaceId);
+    const { base, branchHead, mainHead, merge } = await this.prepareBranchMerge(branch, workspaceId, 'main');
+
+    return {
+      branch,
+      base: toSummary(base),
+      branchHead: toSummary(branchHead),
+      mainHead: toSummary(mainHead),
+      branchChanges: diffSpecModules(base.modules, branchHead.modules, { regulationTrigger: `Branch ${branch.name}` }),
+      mainChanges: diffSpecModules(base.modules, mainHead.modules, { regulationTrigger: 'Main line' }),
+      conflicts: merge.conflicts,
+    };
+  }
+
+  /**
+   * Three-way merge the branch head into the main-line head as a new
+   * main-line version. Clauses changed on both sides are conflicts:
+   * by default they fail the merge; onConflict can pick a side.
+   */
+  async mergeBranch(input: MergeBranchInput): Promise<MergeBranchResult> {
+    const { branchId, workspaceId, userId } = input;
+    const onConflict = input.onConflict ?? 'fail';
+
+    await this.assertMemberRole(workspaceId, userId, SPEC_EDITOR_ROLES);
+
+    const branch = await this.getBranch(branchId, workspaceId);
+    if (branch.status !== 'open') {
+      throw new ConflictException(`Branch "${branch.name}" is already ${branch.status}.`);
+    }
+
+    const { branchHead, mainHead, merge } = await this.prepareBranchMerge(
+      branch,
+      workspaceId,
+      onConflict === 'take_branch' ? 'branch' : 'main',
+    );
+
+    if (merge.conflicts.length > 0 && onConflict === 'fail') {
+      throw new ConflictException({
+        message:
+          `${merge.conflicts.length} clause(s) were changed on both branch "${branch.name}" and the main line. ` +
+          'Nothing was merged.',
+        conflicts: merge.conflicts,
+      });
+    }
+
+    const trigger = `Merge branch ${branch.name}`;
+    const diffs = diffSpecModules(mainHead.modules, merge.modules, { regulationTrigger: trigger });
+    const jurisdictions = union(mainHead.jurisdictions, branchHead.jurisdictions);
+    const frameworks = union(mainHead.frameworks, branchHead.frameworks);
+
+    if (
+      diffs.length === 0 &&
+      jurisdictions.length === mainHead.jurisdictions.length &&
+      frameworks.length === mainHead.frameworks.length
+    ) {
+      throw new BadRequestException(`Branch "${branch.name}" has nothing the main line doesn't already have.`);
+    }
+
+    const version = await this.commitVersion({
+      head: mainHead,
+      workspaceId,
+      userId,
+      changeReason:
+        `Merge branch "${branch.name}" (${branchHead.versionLabel}) into ${mainHead.versionLabel}` +
+        (merge.conflicts.length > 0 ? ` — ${merge.conflicts.length} conflict(s) resolved (${onConflict})` : '') +
+        (input.reason ? ` — ${input.reason}` : ''),
+      trigger,
+      modules: merge.modules,
+      diffs,
+      affectedModules: MODULE_KEYS.filter(key => diffs.some(d => d.module === key)),
+      openPullRequest: input.openPullRequest,
+      overrides: { jurisdictions, frameworks },
+    });
+
+    const { data: mergedRow, error } = await this.supabase.db
+      .from('spec_branches')
+      .update({ status: 'merged', merged_version_id: version.id, merged_at: new Date().toISOString() })
+      .eq('id', branch.id)
+      .select()
+      .single();
+
+    if (error) {
+      // The merge itself is committed — only the bookkeeping failed
+      this.logger.error(`Merged branch ${branch.id} as ${version.id} but failed to close it: ${error.message}`);
+    }
+
+    this.logger.log(
+      `Branch "${branch.name}" merged by ${userId} as ${version.id} (${version.versionLabel}) — ` +
+      `${diffs.length} diff(s), ${merge.conflicts.length} conflict(s)`,
+    );
+
+    return {
+      version,
+      branch: mergedRow ? this.mapBranchRow(mergedRow) : branch,
+      diffs,
+      conflicts: merge.conflicts,
+    };
+  }
+
+  private async prepareBranchMerge(
+    branch: SpecBranch,
+    workspaceId: string,
+    prefer: 'main' | 'branch',
+  ): Promise<{ base: SpecVersion; branchHead: SpecVersion; mainHead: SpecVersion; merge: ModuleMergeResult }> {
+    const base = await this.getSpec(branch.baseVersionId, workspaceId);
+    const branchHead = await this.resolveChainHead(base, branch.id, workspaceId);
+    const mainHead = await this.resolveChainHead(base, null, workspaceId);
+
+    if (mainHead.status !== 'active') {
+      throw new ConflictException(`The main line has no active version after ${base.versionLabel}.`);
+    }
+
+    return {
+      base,
+      branchHead,
+      mainHead,
+      merge: mergeSpecModules(base.modules, mainHead.modules, branchHead.modules, prefer),
+    };
+  }
+
+  /**
+   * Follow one chain — the main line (branchId null) or a branch —
+   * forward from `from` to its newest committed version. Drafts
+   * pending approval are not part of the head.
+   */
+  private async resolveChainHead(from: SpecVersion, branchId: string | null, workspaceId: string): Promise<SpecVersion> {
+    let head = from;
+
+    for (let depth = 0; depth < MAX_CHAIN_DEPTH; depth++) {
+      let query = this.supabase.db
+        .from('spec_versions')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('parent_id', head.id)
+        .in('status', ['active', 'superseded']);
+
+      query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null);
+
+      const { data, error } = await query;
+
+      if (error) throw new Error(`Failed to load successors of ${head.id}: ${error.message}`);
+      if (!data || data.length === 0) return head;
+      if (data.length > 1) {
+        throw new ConflictException(`Version chain forks at ${head.id} — resolve manually.`);
+      }
+
+      head = this.mapRow(data[0]);
+    }
+
+    throw new Error(`No head within ${MAX_CHAIN_DEPTH} versions of ${from.id}`);
+  }
+
+  // ── Version Commit ──────────────────────────────────────────
+
+  /**
+   * Append a user-made version to the chain on top of `head`, with
+   * its diffs and spec.updated event (plus spec.pr_requested if
+   * asked), through the same commit_spec_patch transaction as
+   * regulation patches.
+   *
+   * The version goes on head's branch unless `branchId` says
+   * otherwise. Branch versions publish no events — nothing outside
+   * the branch should react to a what-if.
+   */
+  private async commitVersion(params: {
+    head: SpecVersion;
+    workspaceId: string;
+    userId: string;
+    changeReason: string;
+    trigger: string;
+    modules: SpecVersion['modules'];
+    diffs: ClauseDiff[];
+    affectedModules: ModuleKey[];
+    openPullRequest?: boolean;
+    branchId?: string;
+    versionLabel?: string;
+    overrides?: Partial<Pick<SpecVersion, 'jurisdictions' | 'frameworks' | 'scanScore'>>;
+  }): Promise<SpecVersion> {
+    const { head, workspaceId, modules, diffs, affectedModules, trigger, overrides } = params;
+    const branchId = params.branchId ?? head.branchId ?? null;
+
+    if (branchId && params.openPullRequest) {
+      throw new BadRequestException('Branch versions cannot open pull requests. Merge the branch first.');
+    }
+
+    const newVersionId = uuidv4();
+    const versionLabel = params.versionLabel ??
+      nextVersionLabel(head.versionLabel, diffs, await this.getVersioningPolicy(workspaceId));
+
+    const specVersionRow = {
+      id: newVersionId,
+      workspace_id: workspaceId,
+      parent_id: head.id,
+      branch_id: branchId,
+      version_number: head.versionNumber + 1,
+      version_label: versionLabel,
+      status: 'active',
+      change_reason: params.changeReason,
+      triggered_by: 'user',
+      regulation_trigger: null,
+      jurisdictions: overrides?.jurisdictions ?? head.jurisdictions,
+      frameworks: overrides?.frameworks ?? head.frameworks,
+      master_specification: modules.master_specification,
+      security_blueprint: modules.security_blueprint,
+      cost_analysis: modules.cost_analysis,
+      tech_stack_justification: modules.tech_stack_justification,
+      code_scaffolding: modules.code_scaffolding,
+      // Content changed — the old score no longer applies unless restored
+      scan_score: overrides?.scanScore ?? null,
+      created_by: params.userId,
+    };
+
+    const diffRows = diffs.map(d => ({
+      from_version_id: head.id,
+      to_version_id: newVersionId,
+      module: d.module,
+      clause_path: d.clausePath,
+      field_label: d.fieldLabel,
+      before_value: d.before,
+      after_value: d.after,
+      reason: d.reason,
+      regulation_trigger: d.regulationTrigger,
+      severity: d.severity,
+    }));
+
+    const specUpdatedEvent: SpecUpdatedEvent = {
+      eventId: uuidv4(),
+      eventType: 'spec.updated',
+      workspaceId,
+      specVersionId: head.id,
+      newVersionId,
+      regulationTrigger: trigger,
+      affectedModules,
+      diffs,
+      githubPrRequested: !!params.openPullRequest,
+    };
+
+    const outboxRows: OutboxRow[] = branchId ? [] : [toOutboxRow(TOPICS.SPEC_UPDATED, specUpdatedEvent, workspaceId)];
+
+    if (params.openPullRequest) {
+      const prRequestedEvent: SpecPrRequestedEvent = {
+        eventId: uuidv4(),
+        eventType: 'spec.pr_requested',
+        workspaceId,
+        specVersionId: newVersionId,
+        previousVersionId: head.id,
+        regulationTrigger: trigger,
+        affectedModules,
+        diffs,
+        versionLabel,
+      };
+      outboxRows.push(toOutboxRow(TOPICS.SPEC_PR_REQUESTED, prRequestedEvent, workspaceId));
+    }
+
+    const { error } = await this.supabase.db.rpc('commit_spec_patch', {
+      p_expected_parent_id: head.id,
+      p_spec_version: specVersionRow,
+      p_diffs: diffRows,
+      p_impact_log: null,
+      p_outbox: outboxRows,
+    });
+
+    if (isHeadMovedError(error)) {
+      throw new ConflictException(
+        `Spec version ${head.id} was superseded in the meantime. Reload and retry against the new head.`,
+      );
+    }
+    if (error) throw new Error(`Failed to commit spec version: ${error.message}`);
+
+    return this.getSpec(newVersionId, workspaceId);
+  }
+
+  private async getVersioningPolicy(workspaceId: string): Promise<VersioningPolicy> {
+    const { data, error } = await this.supabase.db
+      .from('workspaces')
+      .select('versioning_policy')
+      .eq('id', workspaceId)
+      .single();
+
+    if (error || !data) throw new NotFoundException('Workspace not found.');
+    return resolveVersioningPolicy(data.versioning_policy);
+  }
+
+  /**
+   * Throw unless the user holds one of `roles` in the workspace.
+   */
+  private async assertMemberRole(workspaceId: string, userId: string, roles: MemberRole[]): Promise<void> {
+    const { data, error } = await this.supabase.db
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load workspace membership: ${error.message}`);
+
+    if (!data || !roles.includes(data.role)) {
+      throw new ForbiddenException(`Requires one of these workspace roles: ${roles.join(', ')}.`);
+    }
+  }
+
+  // ── Row Mappers ─────────────────────────────────────────────
+
+  private mapRow(row: any): SpecVersion {
+    return {
+      ...this.mapSummaryRow(row),
+      workspaceId: row.workspace_id,
+      modules: {
+        master_specification: row.master_specification,
+        security_blueprint: row.security_blueprint,
+        cost_analysis: row.cost_analysis,
+        tech_stack_justification: row.tech_stack_justification,
+        code_scaffolding: row.code_scaffolding,
+      },
+    };
+  }
+
+  private mapSummaryRow(row: any): SpecVersionSummary {
+    return {
+      id: row.id,
+      parentId: row.parent_id,
+      branchId: row.branch_id,
+      versionNumber: row.version_number,
+      versionLabel: row.version_label,
+      status: row.status,
+      changeReason: row.change_reason,
+      triggeredBy: row.triggered_by,
+      regulationTrigger: row.regulation_trigger,
+      jurisdictions: row.jurisdictions,
+      frameworks: row.frameworks,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      scanScore: row.scan_score,
+      githubPrUrl: row.github_pr_url,
+    };
+  }
+
+  private mapDiffRow(row: any): StoredClauseDiff {
+    return {
+      id: row.id,
+      fromVersionId: row.from_version_id,
+      toVersionId: row.to_version_id,
+      module: row.module,
+      clausePath: row.clause_path,
+      fieldLabel: row.field_label,
+      before: row.before_value,
+      after: row.after_value,
+      reason: row.reason,
+      regulationTrigger: row.regulation_trigger,
+      severity: row.severity,
+      reviewStatus: row.review_status ?? 'pending',
+      reviewReason: row.review_reason ?? undefined,
+      reviewedBy: row.reviewed_by ?? undefined,
+      reviewedAt: row.reviewed_at ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapBranchRow(row: any): SpecBranch {
+    return {
+      id: row.id,
+      workspaceId: row.workspace_id,
+      name: row.name,
+      baseVersionId: row.base_version_id,
+      status: row.status,
+      description: row.description ?? undefined,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      mergedVersionId: row.merged_version_id ?? undefined,
+      mergedAt: row.merged_at ?? undefined,
+    };
+  }
+
+  private mapCommentRow(row: any): ClauseDiffComment {
+    return {
+      id: row.id,
+      diffId: row.diff_id,
+      authorId: row.author_id,
+      body: row.body,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+function union<T>(a: T[], b: T[]): T[] {
+  return [...new Set([...(a ?? []), ...(b ?? [])])];
+}
+
+function toSummary(spec: SpecVersion): SpecVersionSummary {
+  const { workspaceId, modules, ...summary } = spec;
+  return summary;
+}
+
+function toClauseDiff(stored: StoredClauseDiff): ClauseDiff {
+  return {
+    module: stored.module,
+    clausePath: stored.clausePath,
+    fieldLabel: stored.fieldLabel,
+    before: stored.before,
+    after: stored.after,
+    reason: stored.reason,
+    regulationTrigger: stored.regulationTrigger,
+    severity: stored.severity,
+  };
+}
@@ -0,0 +1,401 @@
+// ============================================================
+// ASSURE CODE — Structural Spec Differ
+// Compares the module JSON of any two spec versions and emits
+// ClauseDiff entries — no LLM, no stored spec_diffs needed, so
+// it works across non-adjacent and user-created versions alike.
+//
+// Arrays of records are matched by identity (IDENTITY_KEYS), so
+// a reordered or inserted control shows up as exactly that and
+// not as every later entry changing. Lists of strings are
+// matched by value. Anything else is compared by position.
+//
+// clausePath indices point into the `from` side for changed and
+// removed entries, and into the `to` side for added entries.
+// Added entries have an empty `before`, removed ones an empty
+// `after`.
+//
+// The same matching drives mergeSpecModules(), a three-way
+// merge used to bring a branch back into the main line.
+// ============================================================
+
+import { BranchMergeConflict, ClauseDiff, ModuleKey, SpecVersion } from '../types';
+import { formatClausePath, PathSegment, stringifyClauseValue } from '../ai-engine/clausePath';
+
+const MODULE_KEYS: ModuleKey[] = [
+  'master_specification',
+  'security_blueprint',
+  'cost_analysis',
+  'tech_stack_justification',
+  'code_scaffolding',
+];
+
+// Fields that identify an entry of a record array, keyed by
+// "<module>.<path>" with array indices written as []
+const IDENTITY_KEYS: Record<string, string[]> = {
+  'master_specification.coreFeatures': ['name'],
+  'master_specification.dataFlows': ['from', 'to', 'dataType'],
+  'master_specification.nonFunctionalRequirements': ['category', 'requirement'],
+  'security_blueprint.threatModel': ['threat'],
+  'security_blueprint.networkTopology.zones': ['name'],
+  'security_blueprint.encryptionControls': ['mechanism', 'scope'],
+  'security_blueprint.iamRules': ['role'],
+  'cost_analysis.breakdown': ['service', 'provider'],
+  'cost_analysis.scalingProjection': ['usersCount'],
+  'tech_stack_justification.decisions': ['category'],
+  'tech_stack_justification.decisions[].alternatives': ['name'],
+  'tech_stack_justification.vendorRiskAssessment': ['vendor', 'service'],
+  'tech_stack_justification.openSourceLicenses': ['package'],
+  'code_scaffolding.complianceAnnotations': ['file', 'annotation'],
+};
+
+export interface StructuralDiffOptions {
+  regulationTrigger: string;   // Stamped on every diff, e.g. "Compare v1.2.0 → v1.5.0"
+}
+
+interface DiffContext extends StructuralDiffOptions {
+  module: ModuleKey;
+  out: ClauseDiff[];
+}
+
+export interface ModuleMergeResult {
+  modules: SpecVersion['modules'];
+  conflicts: BranchMergeConflict[];  // Clauses both sides changed differently
+}
+
+interface MergeContext {
+  module: ModuleKey;
+  prefer: 'main' | 'branch';
+  conflicts: BranchMergeConflict[];
+}
+
+// A path segment plus how to show it in a field label
+interface LabeledSegment {
+  segment: PathSegment;
+  label: string;
+}
+
+/**
+ * Diff all five modules of two spec versions.
+ */
+export function diffSpecModules(
+  from: SpecVersion['modules'],
+  to: SpecVersion['modules'],
+  options: StructuralDiffOptions,
+): ClauseDiff[] {
+  return MODULE_KEYS.flatMap(module => diffModule(module, from[module], to[module], options));
+}
+
+/**
+ * Diff one module's JSON.
+ */
+export function diffModule(
+  module: ModuleKey,
+  from: unknown,
+  to: unknown,
+  options: StructuralDiffOptions,
+): ClauseDiff[] {
+  const ctx: DiffContext = { ...options, module, out: [] };
+  diffValue(ctx, [], from, to);
+  return ctx.out;
+}
+
+/**
+ * Three-way merge of a branch into the main line. Changes made on
+ * only one side since `base` are combined; where both sides changed
+ * the same clause differently, `prefer` picks the side that wins
+ * and the clause is reported as a conflict.
+ */
+export function mergeSpecModules(
+  base: SpecVersion['modules'],
+  main: SpecVersion['modules'],
+  branch: SpecVersion['modules'],
+  prefer: 'main' | 'branch' = 'main',
+): ModuleMergeResult {
+  const conflicts: BranchMergeConflict[] = [];
+  const modules = {} as SpecVersion['modules'];
+
+  for (const module of MODULE_KEYS) {
+    const ctx: MergeContext = { module, prefer, conflicts };
+    (modules as any)[module] = mergeValue(ctx, [], base[module], main[module], branch[module]);
+  }
+
+  return { modules, conflicts };
+}
+
+// ── Walk ──────────────────────────────────────────────────────
+
+function diffValue(ctx: DiffContext, path: LabeledSegment[], from: unknown, to: unknown): void {
+  if (deepEqual(from, to)) return;
+
+  if (isRecord(from) && isRecord(to)) {
+    diffObject(ctx, path, from, to);
+  } else if (Array.isArray(from) && Array.isArray(to)) {
+    diffArray(ctx, path, from, to);
+  } else if (path.length === 0) {
+    // A whole module replaced by something of another type
+    emit(ctx, path, from, to, 'Module replaced');
+  } else {
+    emit(ctx, path, from, to, from === undefined ? 'Field added' : to === undefined ? 'Field removed' : 'Value changed');
+  }
+}
+
+function diffObject(
+  ctx: DiffContext,
+  path: LabeledSegment[],
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+): void {
+  const keys = [...Object.keys(from), ...Object.keys(to).filter(k => !(k in from))];
+
+  for (const key of keys) {
+    diffValue(ctx, [...path, { segment: key, label: humanize(key) }], from[key], to[key]);
+  }
+}
+
+function diffArray(ctx: DiffContext, path: LabeledSegment[], from: unknown[], to: unknown[]): void {
+  const identity = identityFor(ctx.module, path, [from, to]);
+
+  if (!identity) {
+    diffByPosition(ctx, path, from, to);
+    return;
+  }
+
+  const toIndex = new Map(to.map((entry, i) => [identity(entry), i]));
+  const matched = new Set<number>();
+
+  from.forEach((entry, i) => {
+    const key = identity(entry);
+    const j = toIndex.get(key);
+    const segment = { segment: i, label: entryLabel(entry, key) };
+
+    if (j === undefined) {
+      emit(ctx, [...path, segment], entry, undefined, 'Entry removed');
+    } else {
+      matched.add(j);
+      diffValue(ctx, [...path, segment], entry, to[j]);
+    }
+  });
+
+  to.forEach((entry, j) => {
+    if (matched.has(j)) return;
+    emit(ctx, [...path, { segment: j, label: entryLabel(entry, identity(entry)) }], undefined, entry, 'Entry added');
+  });
+}
+
+function diffByPosition(ctx: DiffContext, path: LabeledSegment[], from: unknown[], to: unknown[]): void {
+  const length = Math.max(from.length, to.length);
+
+  for (let i = 0; i < length; i++) {
+    const segment = { segment: i, label: `#${i + 1}` };
+
+    if (i >= to.length) {
+      emit(ctx, [...path, segment], from[i], undefined, 'Entry removed');
+    } else if (i >= from.length) {
+      emit(ctx, [...path, segment], undefined, to[i], 'Entry added');
+    } else {
+      diffValue(ctx, [...path, segment], from[i], to[i]);
+    }
+  }
+}
+
+// ── Merge ─────────────────────────────────────────────────────
+
+function mergeValue(
+  ctx: MergeContext,
+  path: LabeledSegment[],
+  base: unknown,
+  main: unknown,
+  branch: unknown,
+): unknown {
+  if (deepEqual(main, branch)) return main;
+  if (deepEqual(base, main)) return branch;
+  if (deepEqual(base, branch)) return main;
+
+  if (isRecord(base) && isRecord(main) && isRecord(branch)) {
+    return mergeObject(ctx, path, base, main, branch);
+  }
+
+  if (Array.isArray(base) && Array.isArray(main) && Array.isArray(branch)) {
+    const identity = identityFor(ctx.module, path, [base, main, branch]);
+    if (identity) return mergeArray(ctx, path, identity, base, main, branch);
+  }
+
+  // Both sides changed this clause, differently
+  ctx.conflicts.push({
+    ...describePath(ctx.module, path),
+    base: stringifyClauseValue(base),
+    main: stringifyClauseValue(main),
+    branch: stringifyClauseValue(branch),
+  });
+
+  return ctx.prefer === 'branch' ? branch : main;
+}
+
+function mergeObject(
+  ctx: MergeContext,
+  path: LabeledSegment[],
+  base: Record<string, unknown>,
+  main: Record<string, unknown>,
+  branch: Record<string, unknown>,
+): Record<string, unknown> {
+  const keys = [...Object.keys(main), ...Object.keys(branch).filter(k => !(k in main))];
+  const merged: Record<string, unknown> = {};
+
+  for (const key of keys) {
+    const value = mergeValue(ctx, [...path, { segment: key, label: humanize(key) }], base[key], main[key], branch[key]);
+    if (value !== undefined) merged[key] = value;
+  }
+
+  return merged;
+}
+
+// Main's order first, then entries only the branch has
+function mergeArray(
+  ctx: MergeContext,
+  path: LabeledSegment[],
+  identity: (entry: unknown) => string,
+  base: unknown[],
+  main: unknown[],
+  branch: unknown[],
+): unknown[] {
+  const baseByKey = new Map(base.map(entry => [identity(entry), entry]));
+  const branchByKey = new Map(branch.map(entry => [identity(entry), entry]));
+  const inMain = new Set<string>();
+  const merged: unknown[] = [];
+
+  main.forEach((entry, i) => {
+    const key = identity(entry);
+    inMain.add(key);
+
+    const segment = { segment: i, label: entryLabel(entry, key) };
+    const value = mergeValue(ctx, [...path, segment], baseByKey.get(key), entry, branchByKey.get(key));
+    if (value !== undefined) merged.push(value);
+  });
+
+  branch.forEach((entry, j) => {
+    const key = identity(entry);
+    if (inMain.has(key)) return;
+
+    // Added on the branch, or removed on main
+    const segment = { segment: j, label: entryLabel(entry, key) };
+    const value = mergeValue(ctx, [...path, segment], baseByKey.get(key), undefined, entry);
+    if (value !== undefined) merged.push(value);
+  });
+
+  return merged;
+}
+
+/**
+ * How entries of this array are matched, or null to match by position.
+ * Lists of primitives match by value; record arrays by their
+ * registered identity fields. Either needs the identities to be
+ * unique within every list.
+ */
+function identityFor(
+  module: ModuleKey,
+  path: LabeledSegment[],
+  lists: unknown[][],
+): ((entry: unknown) => string) | null {
+  const entries = lists.flat();
+  let identity: (entry: unknown) => string;
+
+  if (entries.every(e => !isRecord(e) && !Array.isArray(e))) {
+    identity = entry => JSON.stringify(entry);
+  } else {
+    const fields = IDENTITY_KEYS[schemaPath(module, path)];
+    if (!fields || !entries.every(isRecord)) return null;
+    identity = entry => JSON.stringify(fields.map(f => (entry as Record<string, unknown>)[f] ?? null));
+  }
+
+  const unique = (list: unknown[]) => new Set(list.map(identity)).size === list.length;
+  return lists.every(unique) ? identity : null;
+}
+
+// ── Output ────────────────────────────────────────────────────
+
+function emit(
+  ctx: DiffContext,
+  path: LabeledSegment[],
+  before: unknown,
+  after: unknown,
+  reason: string,
+): void {
+  ctx.out.push({
+    ...describePath(ctx.module, path),
+    before: stringifyClauseValue(before),
+    after: stringifyClauseValue(after),
+    reason,
+    regulationTrigger: ctx.regulationTrigger,
+    severity: severityFor(ctx.module, path, before, after),
+  });
+}
+
+function describePath(
+  module: ModuleKey,
+  path: LabeledSegment[],
+): Pick<ClauseDiff, 'module' | 'clausePath' | 'fieldLabel'> {
+  if (path.length === 0) return { module, clausePath: module, fieldLabel: humanize(module) };
+
+  return {
+    module,
+    clausePath: formatClausePath(path.map(p => p.segment)),
+    fieldLabel: path.map(p => p.label).join(' › '),
+  };
+}
+
+// No model to judge impact — a removed control or a residency
+// change matters most, scaffolding text least
+function severityFor(
+  module: ModuleKey,
+  path: LabeledSegment[],
+  before: unknown,
+  after: unknown,
+): ClauseDiff['severity'] {
+  if (module === 'code_scaffolding') return 'low';
+  if (module === 'security_blueprint') {
+    if (path[0]?.segment === 'dataResidency') return 'high';
+    if (after === undefined && before !== undefined) return 'high';
+  }
+  return 'medium';
+}
+
+function entryLabel(entry: unknown, identity: string): string {
+  if (!isRecord(entry)) return stringifyClauseValue(entry);
+
+  const values = (JSON.parse(identity) as unknown[]).filter(v => v !== null && v !== '');
+  return values.length > 0 ? values.map(v => String(v)).join(' / ') : identity;
+}
+
+// "security_blueprint" + ['zones', 3, 'name'] → "security_blueprint.zones[].name"
+function schemaPath(module: ModuleKey, path: LabeledSegment[]): string {
+  return path.reduce<string>(
+    (acc, { segment }) => (typeof segment === 'number' ? `${acc}[]` : `${acc}.${segment}`),
+    module,
+  );
+}
+
+// "retentionDays" → "Retention Days", "security_blueprint" → "Security Blueprint"
+function humanize(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, c => c.toUpperCase());
+}
+
+// ── Helpers ───────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => k in b && deepEqual(a[k], b[k]));
+  }
+  return false;
+}
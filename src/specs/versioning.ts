@@ -0,0 +1,243 @@
+// ============================================================
+// ASSURE CODE — Spec Version Chain Helpers
+// Shared by everything that appends to a version chain
+// (regulation patches, reverts, manual edits, reviews).
+//
+// Version labels follow semver, decided by the diff set:
+//   major  critical diffs, added/removed list entries, or
+//          changes under a major path (dataResidency.regions)
+//   minor  any other clause change
+//   patch  wording only — a text clause changed by a few words
+//          (typo fix, light rephrasing) without touching a word
+//          that carries the obligation ("must", "not", …); or, if
+//          a workspace opts in, any text change at one of its
+//          patch severities
+// Each workspace can override the defaults (versioning_policy).
+//
+// Branch versions carry a prerelease tag off their branch point:
+// "v1.3.0-hipaa.1", "v1.3.0-hipaa.2", … — only the counter moves.
+// ============================================================
+
+import { ClauseDiff } from '../types';
+import { parseClausePath, parseModuleClausePath, PathSegment } from '../ai-engine/clausePath';
+
+// Postgres errors commit_spec_patch raises when the expected parent is
+// no longer the head: its own check (serialization_failure) or the
+// partial unique index over non-archived rows (unique_violation) —
+// one successor per version per branch:
+//   create unique index spec_versions_one_successor
+//     on spec_versions (parent_id, branch_id) nulls not distinct
+//     where status <> 'archived';
+// NULLS NOT DISTINCT (Postgres 15+) matters: main-line rows have
+// branch_id null, and with the default NULLS DISTINCT the index
+// would allow any number of main-line successors.
+const HEAD_MOVED_ERROR_CODES = new Set(['40001', '23505']);
+
+/**
+ * True if a commit_spec_patch error means another version was
+ * committed on top of the expected parent first.
+ */
+export function isHeadMovedError(error: { code?: string } | null | undefined): boolean {
+  return !!error?.code && HEAD_MOVED_ERROR_CODES.has(error.code);
+}
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface VersioningPolicy {
+  majorSeverities: ClauseDiff['severity'][];
+  majorPaths: string[];               // Module-relative; a change at or under one is major
+  structuralChangesAreMajor: boolean; // Added or removed list entries
+  patchSeverities: ClauseDiff['severity'][]; // Text changes at these severities count as wording
+}
+
+export const DEFAULT_VERSIONING_POLICY: VersioningPolicy = {
+  majorSeverities: ['critical'],
+  majorPaths: ['dataResidency.regions'],
+  structuralChangesAreMajor: true,
+  patchSeverities: [],   // Opt-in: severity alone says nothing about how much the text moved
+};
+
+const BUMP_RANK: Record<VersionBump, number> = { patch: 0, minor: 1, major: 2 };
+
+// Wording-only: at most this many word insertions, deletions or
+// substitutions, and at most this share of the longer text's words
+const WORDING_MAX_WORD_EDITS = 3;
+const WORDING_MAX_EDIT_RATIO = 0.2;
+
+// Changing one of these changes what the clause requires, however small the edit
+const NORMATIVE_WORDS = new Set([
+  'not', 'no', 'never', 'none', 'nor', 'without', 'except', 'unless',
+  'must', 'shall', 'should', 'may', 'might', 'can', 'cannot', 'will', 'required', 'optional',
+  'all', 'any', 'only', 'always', 'prohibited', 'forbidden', 'allowed', 'permitted',
+]);
+
+/**
+ * A workspace's stored policy (possibly partial, possibly null)
+ * merged over the defaults.
+ */
+export function resolveVersioningPolicy(stored: Partial<VersioningPolicy> | null | undefined): VersioningPolicy {
+  return { ...DEFAULT_VERSIONING_POLICY, ...(stored ?? {}) };
+}
+
+/**
+ * The bump a diff set calls for — the largest any single diff does.
+ * An empty diff set is not a version; callers must not ask.
+ */
+export function classifyVersionBump(diffs: ClauseDiff[], policy: VersioningPolicy): VersionBump {
+  if (diffs.length === 0) {
+    throw new Error('[Versioning] Cannot classify an empty diff set — nothing changed.');
+  }
+
+  let bump: VersionBump = 'patch';
+
+  for (const diff of diffs) {
+    const next = classifyDiff(diff, policy);
+    if (BUMP_RANK[next] > BUMP_RANK[bump]) bump = next;
+    if (bump === 'major') break;
+  }
+
+  return bump;
+}
+
+/**
+ * "v1.2.3" + major → "v2.0.0", minor → "v1.3.0", patch → "v1.2.4".
+ * Branch labels only advance their counter: "v1.2.3-hipaa.2" → "v1.2.3-hipaa.3".
+ */
+export function bumpVersion(current: string, bump: VersionBump): string {
+  const prerelease = current.match(/^(v?\d+\.\d+\.\d+-[0-9A-Za-z-]+)\.(\d+)$/);
+  if (prerelease) return `${prerelease[1]}.${parseInt(prerelease[2], 10) + 1}`;
+
+  const match = current.match(/^v?(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return `${current}.1`;
+
+  const [major, minor, patch] = match.slice(1).map(n => parseInt(n, 10));
+
+  switch (bump) {
+    case 'major': return `v${major + 1}.0.0`;
+    case 'minor': return `v${major}.${minor + 1}.0`;
+    case 'patch': return `v${major}.${minor}.${patch + 1}`;
+  }
+}
+
+/**
+ * Label of the first version on a branch: "v1.3.0" + "hipaa" → "v1.3.0-hipaa.1"
+ */
+export function branchVersionLabel(baseLabel: string, branchName: string): string {
+  return `${baseLabel}-${branchName}.1`;
+}
+
+/**
+ * The label for a version that applies `diffs` on top of `parentLabel`.
+ */
+export function nextVersionLabel(
+  parentLabel: string | null | undefined,
+  diffs: ClauseDiff[],
+  policy: VersioningPolicy,
+): string {
+  return bumpVersion(parentLabel ?? 'v1.0.0', classifyVersionBump(diffs, policy));
+}
+
+function classifyDiff(diff: ClauseDiff, policy: VersioningPolicy): VersionBump {
+  if (policy.majorSeverities.includes(diff.severity)) return 'major';
+  if (policy.majorPaths.some(path => isUnderPath(diff, path))) return 'major';
+  if (policy.structuralChangesAreMajor && isStructural(diff)) return 'major';
+  if (isWordingOnly(diff, policy)) return 'patch';
+  return 'minor';
+}
+
+function isUnderPath(diff: ClauseDiff, path: string): boolean {
+  let segments: PathSegment[];
+  let prefix: PathSegment[];
+  try {
+    segments = parseModuleClausePath(diff.clausePath, diff.module);
+    prefix = parseClausePath(path);
+  } catch {
+    return false;
+  }
+
+  return prefix.length <= segments.length && prefix.every((seg, i) => seg === segments[i]);
+}
+
+// A list entry appended or emptied, or a whole list whose entries changed
+function isStructural(diff: ClauseDiff): boolean {
+  const before = diff.before.trim();
+  const after = diff.after.trim();
+
+  if (/\[\d+\]$/.test(diff.clausePath) && (before === '') !== (after === '')) return true;
+
+  const beforeList = parseList(before);
+  const afterList = parseList(after);
+  if (!beforeList || !afterList) return false;
+
+  const beforeEntries = new Set(beforeList.map(e => JSON.stringify(e)));
+  const afterEntries = new Set(afterList.map(e => JSON.stringify(e)));
+
+  return beforeEntries.size !== afterEntries.size || [...beforeEntries].some(e => !afterEntries.has(e));
+}
+
+function isWordingOnly(diff: ClauseDiff, policy: VersioningPolicy): boolean {
+  if (!isText(diff.before) || !isText(diff.after)) return false;
+  if (policy.patchSeverities.includes(diff.severity)) return true;
+
+  const before = toWords(diff.before);
+  const after = toWords(diff.after);
+
+  if (changedWords(before, after).some(word => NORMATIVE_WORDS.has(word))) return false;
+
+  const edits = wordEditDistance(before, after);
+  const longer = Math.max(before.length, after.length);
+  return edits <= WORDING_MAX_WORD_EDITS && edits <= Math.max(1, Math.floor(longer * WORDING_MAX_EDIT_RATIO));
+}
+
+// Free text — not a number, boolean or JSON value
+function isText(value: string): boolean {
+  const v = value.trim();
+  if (v === '' || v === 'true' || v === 'false' || Number.isFinite(Number(v))) return false;
+  try {
+    JSON.parse(v);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+// Lower-cased words — case, whitespace and punctuation never count as edits
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Words whose count differs between the two texts
+function changedWords(before: string[], after: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const word of before) counts.set(word, (counts.get(word) ?? 0) + 1);
+  for (const word of after) counts.set(word, (counts.get(word) ?? 0) - 1);
+  return [...counts].filter(([, count]) => count !== 0).map(([word]) => word);
+}
+
+// Levenshtein distance over words, one row at a time
+function wordEditDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function parseList(value: string): unknown[] | null {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
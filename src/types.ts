@@ -112,6 +112,7 @@ export interface ScanFinding {
   remediation: string;
   riskLevel: RiskLevel;
   affectedSection: string; // Which part of the spec this targets
+  source?: 'scanner' | 'citation_verifier';
 }
 
 export interface ScanResult {
@@ -125,6 +126,32 @@ export interface ScanResult {
   scannedAt: string;
 }
 
+// --------------- Citation Verification ----------------------
+
+export interface HallucinatedCitation {
+  citation: string;        // As written by the model, e.g. "GDPR Article 99"
+  path: string;            // Where it appears, e.g. "securityBlueprint.iamRules[0].regulationsCited[1]"
+}
+
+export interface CitationVerificationResult {
+  checked: number;
+  verified: number;
+  hallucinated: HallucinatedCitation[];
+}
+
+// --------------- Pipeline Progress --------------------------
+
+export type PipelineStage = 'retrieval' | 'draft' | 'scan' | 'arbitration';
+
+export interface PipelineStageEvent {
+  stage: PipelineStage;
+  state: 'started' | 'completed' | 'skipped';
+  message: string;                   // Human-readable, shown in the dashboard
+  detail?: Record<string, unknown>;  // e.g. { regulationsRetrieved: 12 } or { score: 0.84 }
+}
+
+export type PipelineStageListener = (event: PipelineStageEvent) => void | Promise<void>;
+
 // --------------- Orchestrator Output ------------------------
 
 export interface ComplianceReport {
@@ -135,6 +162,7 @@ export interface ComplianceReport {
   retrievedRegulations: RetrievedRegulation[];
   draft: DraftSpecification;
   scanResult: ScanResult;
+  citationVerification: CitationVerificationResult; // Checked against the final draft
   finalStatus: ComplianceStatus;
   requiresHumanReview: boolean;   // True if score is in ambiguous range
   completedAt: string;
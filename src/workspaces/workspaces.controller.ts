@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
   Param,
   UseGuards,
@@ -14,8 +15,25 @@ import {
   ApiBearerAuth,
   ApiResponse,
 } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, Matches, MinLength, MaxLength } from 'class-validator';
-import { WorkspacesService } from './workspaces.service';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  IsNumber,
+  Min,
+  Max,
+  ArrayMaxSize,
+  ValidateNested,
+  Matches,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ClauseDiff } from '../types';
+import { WorkspacesService, PatchApprovalPolicy } from './workspaces.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import {
   CurrentUser,
@@ -38,6 +56,49 @@ export class CreateWorkspaceDto {
   slug: string;
 }
 
+const SEVERITIES: ClauseDiff['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+export class VersioningPolicyDto {
+  @IsOptional()
+  @IsArray()
+  @IsIn(SEVERITIES, { each: true })
+  majorSeverities?: ClauseDiff['severity'][];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(500, { each: true })
+  majorPaths?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  structuralChangesAreMajor?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(SEVERITIES, { each: true })
+  patchSeverities?: ClauseDiff['severity'][];
+}
+
+export class UpdateWorkspaceSettingsDto {
+  @IsOptional()
+  @IsIn(['auto', 'require_approval'])
+  patchApprovalPolicy?: PatchApprovalPolicy;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VersioningPolicyDto)
+  versioningPolicy?: VersioningPolicyDto;
+
+  // null clears the workspace's own threshold
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  semanticThreshold?: number | null;
+}
+
 @ApiTags('workspaces')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
@@ -69,6 +130,25 @@ export class WorkspacesController {
     return this.workspacesService.findById(id, user.sub);
   }
 
+  @Patch(':id/settings')
+  @ApiOperation({
+    summary: 'Update workspace settings',
+    description:
+      'patchApprovalPolicy `require_approval` lands regulation patches as drafts ' +
+      'until a compliance officer approves them. versioningPolicy decides which changes ' +
+      'bump the major, minor or patch part of new version labels. ' +
+      'semanticThreshold (0–1, null for the default) is how similar a regulation must be ' +
+      'to a spec for it to be patched.',
+  })
+  @ApiResponse({ status: 403, description: 'Access denied — tenant isolation.' })
+  async updateSettings(
+    @Param('id') id: string,
+    @Body() dto: UpdateWorkspaceSettingsDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.workspacesService.updateSettings(id, user.sub, dto);
+  }
+
   @Get(':id/usage')
   @ApiOperation({ summary: 'Get current report usage vs plan limit' })
   async getUsage(@Param('id') id: string) {
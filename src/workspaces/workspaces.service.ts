@@ -6,6 +6,11 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { SupabaseService } from '../common/supabase.service';
+import { resolveVersioningPolicy, VersioningPolicy } from '../specs/versioning';
+
+// auto:             regulation patches go live immediately
+// require_approval: they land as drafts until a compliance officer approves
+export type PatchApprovalPolicy = 'auto' | 'require_approval';
 
 export interface Workspace {
   id: string;
@@ -16,6 +21,9 @@ export interface Workspace {
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
   monthlyReportCount: number;
+  patchApprovalPolicy: PatchApprovalPolicy;
+  versioningPolicy: VersioningPolicy;
+  semanticThreshold?: number;   // Regulation-to-spec similarity needed to patch; unset = platform default
   createdAt: string;
 }
 
@@ -25,6 +33,12 @@ export interface CreateWorkspaceInput {
   ownerId: string;
 }
 
+export interface UpdateWorkspaceSettingsInput {
+  patchApprovalPolicy?: PatchApprovalPolicy;
+  versioningPolicy?: Partial<VersioningPolicy>; // Merged over the current policy
+  semanticThreshold?: number | null;             // null resets to the platform default
+}
+
 @Injectable()
 export class WorkspacesService {
   private readonly logger = new Logger(WorkspacesService.name);
@@ -76,6 +90,33 @@ export class WorkspacesService {
     return this.mapRow(data);
   }
 
+  /**
+   * Update workspace settings. Owners only.
+   */
+  async updateSettings(
+    id: string,
+    requestingUserId: string,
+    input: UpdateWorkspaceSettingsInput,
+  ): Promise<Workspace> {
+    const workspace = await this.findById(id, requestingUserId);
+
+    const { data, error } = await this.supabase.db
+      .from('workspaces')
+      .update({
+        ...(input.patchApprovalPolicy ? { patch_approval_policy: input.patchApprovalPolicy } : {}),
+        ...(input.versioningPolicy
+          ? { versioning_policy: { ...workspace.versioningPolicy, ...input.versioningPolicy } }
+          : {}),
+        ...(input.semanticThreshold !== undefined ? { semantic_threshold: input.semanticThreshold } : {}),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update workspace: ${error.message}`);
+    return this.mapRow(data);
+  }
+
   /**
    * Increment monthly report count.
    * Called by the compliance pipeline before starting a job.
@@ -90,6 +131,20 @@ export class WorkspacesService {
     }
   }
 
+  /**
+   * Refund one report against the monthly count.
+   * Called when a queued or running compliance job is cancelled.
+   */
+  async decrementReportCount(workspaceId: string): Promise<void> {
+    const { error } = await this.supabase.db.rpc('decrement_report_count', {
+      workspace_id: workspaceId,
+    });
+
+    if (error) {
+      this.logger.error(`Failed to decrement report count: ${error.message}`);
+    }
+  }
+
   /**
    * Check if a workspace is within its plan limits.
    */
@@ -128,6 +183,9 @@ export class WorkspacesService {
       stripeCustomerId: row.stripe_customer_id,
       stripeSubscriptionId: row.stripe_subscription_id,
       monthlyReportCount: row.monthly_report_count,
+      patchApprovalPolicy: row.patch_approval_policy ?? 'auto',
+      versioningPolicy: resolveVersioningPolicy(row.versioning_policy),
+      semanticThreshold: row.semantic_threshold ?? undefined,
       createdAt: row.created_at,
     };
   }